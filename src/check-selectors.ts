@@ -0,0 +1,34 @@
+import dotenv from 'dotenv'
+dotenv.config({ path: '.env.local' })
+
+import { loadBrowserProfiles } from './lib/browser-pool'
+import { loadFlowSelectors } from './lib/flow-selectors'
+import { checkFlowSelectors } from './lib/playwright-veo'
+import { toApiError } from './lib/errors'
+
+// Selector self-check: npm run check-selectors
+// Opens a new Flow project on an idle profile, prints which selectors resolve, exits 1 if any are missing
+async function main() {
+  loadBrowserProfiles()
+  loadFlowSelectors()
+
+  const report = await checkFlowSelectors()
+  console.log(`\nSelector map ${report.version}${report.source ? ` (${report.source})` : ''} on profile ${report.profileId}`)
+  console.log(`Project: ${report.projectUrl}\n`)
+
+  for (const check of report.selectors) {
+    const matches = check.matches === undefined ? '' : ` (${check.matches})`
+    console.log(`  ${check.status.padEnd(9)} ${check.name.padEnd(24)} ${check.context.padEnd(12)}${matches}`)
+  }
+
+  console.log(report.ok ? '\nAll checked selectors resolve' : '\nSome selectors are missing - override them in FLOW_SELECTORS_FILE')
+  return report.ok
+}
+
+main()
+  .then(ok => process.exit(ok ? 0 : 1))
+  .catch(error => {
+    const failure = toApiError(error)
+    console.error(`[Selectors] ${failure.code}: ${failure.message}`)
+    process.exit(1)
+  })
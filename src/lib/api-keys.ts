@@ -0,0 +1,187 @@
+// src/lib/api-keys.ts
+// Named API keys with scopes, daily quotas and an enabled flag
+// Keys are stored as SHA-256 hashes in a JSON file; the plaintext is only shown once on create/rotate
+
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// Configuration from environment variables
+const API_KEYS_FILE = process.env.API_KEYS_FILE || path.join(os.homedir(), '.veo-api-keys.json')
+const ALLOW_DEFAULT_API_KEY = process.env.ALLOW_DEFAULT_API_KEY === 'true'
+const DEFAULT_API_KEY = 'default-api-key-change-me'
+
+export type ApiKeyScope = 'generate' | 'read' | 'admin'
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['generate', 'read', 'admin']
+
+export type ApiKeyRecord = {
+  id: string
+  name: string
+  keyHash: string
+  // First characters of the key, safe to show in listings and logs
+  keyPrefix: string
+  scopes: ApiKeyScope[]
+  // Generations allowed per UTC day, unlimited when unset
+  dailyQuota?: number
+  enabled: boolean
+  createdAt: string
+  rotatedAt?: string
+  revokedAt?: string
+}
+
+// What gets attached to an authenticated request
+export type ApiKeyInfo = Pick<ApiKeyRecord, 'id' | 'name' | 'scopes' | 'dailyQuota'>
+
+export type NewApiKey = {
+  name: string
+  scopes?: ApiKeyScope[]
+  dailyQuota?: number
+}
+
+// Records never leave the server with their hash
+export type ApiKeySummary = Omit<ApiKeyRecord, 'keyHash'> & { usedToday: number }
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex')
+
+const generateKey = () => `veo_${crypto.randomBytes(24).toString('base64url')}`
+
+let keys: ApiKeyRecord[] = []
+
+// Legacy single key from API_KEY - full access, not persisted to the keys file
+let envKey: ApiKeyRecord | null = null
+
+// Generations per key for the current UTC day
+const dailyUsage = new Map<string, { day: string; count: number }>()
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+function saveKeys() {
+  fs.mkdirSync(path.dirname(API_KEYS_FILE), { recursive: true })
+  fs.writeFileSync(API_KEYS_FILE, JSON.stringify({ keys }, null, 2), { mode: 0o600 })
+}
+
+/**
+ * Load keys from the keys file and API_KEY
+ * Throws when no usable key is configured, unless ALLOW_DEFAULT_API_KEY=true
+ */
+export function loadApiKeys() {
+  keys = fs.existsSync(API_KEYS_FILE)
+    ? (JSON.parse(fs.readFileSync(API_KEYS_FILE, 'utf8')).keys || [])
+    : []
+
+  const legacyKey = process.env.API_KEY || (ALLOW_DEFAULT_API_KEY ? DEFAULT_API_KEY : '')
+
+  if (legacyKey === DEFAULT_API_KEY && !ALLOW_DEFAULT_API_KEY) {
+    throw new Error(`API_KEY is set to the default value. Change it, or set ALLOW_DEFAULT_API_KEY=true to allow it.`)
+  }
+
+  envKey = legacyKey
+    ? {
+      id: 'env',
+      name: 'env',
+      keyHash: hashKey(legacyKey),
+      keyPrefix: legacyKey.substring(0, 8),
+      scopes: [...API_KEY_SCOPES],
+      enabled: true,
+      createdAt: new Date().toISOString(),
+    }
+    : null
+
+  if (!envKey && keys.length === 0) {
+    throw new Error(
+      `No API keys configured. Set API_KEY in .env.local or add keys to ${API_KEYS_FILE}.`
+    )
+  }
+
+  console.log(`[Auth] Loaded ${keys.length} key(s) from ${API_KEYS_FILE}${envKey ? ' plus API_KEY' : ''}`)
+}
+
+/**
+ * Find the enabled key matching the supplied plaintext
+ * Compares against every stored hash in constant time, without stopping at the first match
+ */
+export function findApiKey(key: string): ApiKeyInfo | null {
+  const supplied = Buffer.from(hashKey(key), 'hex')
+  let match: ApiKeyRecord | null = null
+
+  for (const record of envKey ? [envKey, ...keys] : keys) {
+    const stored = Buffer.from(record.keyHash, 'hex')
+    if (crypto.timingSafeEqual(supplied, stored) && record.enabled && !match) {
+      match = record
+    }
+  }
+
+  return match && { id: match.id, name: match.name, scopes: match.scopes, dailyQuota: match.dailyQuota }
+}
+
+function usedToday(id: string): number {
+  const usage = dailyUsage.get(id)
+  return usage && usage.day === today() ? usage.count : 0
+}
+
+export function hasDailyQuotaRemaining(key: ApiKeyInfo, count = 1): boolean {
+  return key.dailyQuota === undefined || usedToday(key.id) + count <= key.dailyQuota
+}
+
+export function recordDailyGeneration(key: ApiKeyInfo, count = 1) {
+  dailyUsage.set(key.id, { day: today(), count: usedToday(key.id) + count })
+}
+
+function summarize(record: ApiKeyRecord): ApiKeySummary {
+  const { keyHash: _keyHash, ...rest } = record
+  return { ...rest, usedToday: usedToday(record.id) }
+}
+
+export function listApiKeys(): ApiKeySummary[] {
+  return keys.map(summarize)
+}
+
+/**
+ * Create a key - the returned plaintext is not stored anywhere
+ */
+export function createApiKey(input: NewApiKey): { key: string; record: ApiKeySummary } {
+  const key = generateKey()
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    keyHash: hashKey(key),
+    keyPrefix: key.substring(0, 8),
+    scopes: input.scopes || ['generate', 'read'],
+    dailyQuota: input.dailyQuota,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+  }
+  keys.push(record)
+  saveKeys()
+  return { key, record: summarize(record) }
+}
+
+/**
+ * Replace a key's secret, keeping its name, scopes and quota
+ */
+export function rotateApiKey(id: string): { key: string; record: ApiKeySummary } | null {
+  const record = keys.find(k => k.id === id)
+  if (!record) return null
+
+  const key = generateKey()
+  record.keyHash = hashKey(key)
+  record.keyPrefix = key.substring(0, 8)
+  record.rotatedAt = new Date().toISOString()
+  saveKeys()
+  return { key, record: summarize(record) }
+}
+
+/**
+ * Disable a key permanently - the record is kept for auditing
+ */
+export function revokeApiKey(id: string): ApiKeySummary | null {
+  const record = keys.find(k => k.id === id)
+  if (!record) return null
+
+  record.enabled = false
+  record.revokedAt = new Date().toISOString()
+  saveKeys()
+  return summarize(record)
+}
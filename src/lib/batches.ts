@@ -0,0 +1,190 @@
+// src/lib/batches.ts
+// Batches group jobs submitted together - aggregate status is derived from the jobs on every read
+
+import crypto from 'crypto'
+import type { VideoGenerationOptions, OutputFailure, IngredientResult } from './playwright-veo'
+import { removeFrameFiles, optionImagePaths } from './frames'
+import type { ErrorCode } from './errors'
+import {
+  submitJob,
+  getJob,
+  cancelJob,
+  getQueueCapacity,
+  getQueueStats,
+  FINISHED_JOB_STATES,
+  type Job,
+  type JobOwner,
+  type JobState,
+  type JobVideo,
+} from './jobs'
+
+// How many batches to keep around for status polling
+const MAX_BATCHES = Number(process.env.BATCH_HISTORY_LIMIT) || 50
+
+// partial: finished with at least one succeeded and at least one failed or cancelled item
+export type BatchState = 'queued' | 'running' | 'succeeded' | 'partial' | 'failed' | 'cancelled'
+
+export type BatchItem = {
+  index: number
+  jobId: string
+  state: JobState
+  prompt: string
+  queuePosition?: number
+  videoUrls?: string[]
+  videos?: JobVideo[]
+  failedCount?: number
+  failures?: OutputFailure[]
+  ingredients?: IngredientResult[]
+  // Project the item generated in, once its run got that far
+  projectUrl?: string
+  error?: string
+  errorCode?: ErrorCode
+}
+
+export type Batch = {
+  id: string
+  state: BatchState
+  submittedBy?: JobOwner
+  createdAt: string
+  finishedAt?: string
+  counts: Record<JobState, number>
+  items: BatchItem[]
+}
+
+export type SubmitBatchOptions = {
+  priority?: number
+  submittedBy?: JobOwner
+}
+
+export type SubmitBatchResult =
+  | { accepted: true; batch: Batch }
+  | { accepted: false; retryAfterSeconds: number; available: number }
+
+type BatchRecord = {
+  id: string
+  // Held directly so items stay readable after the job registry prunes them
+  jobs: Job[]
+  submittedBy?: JobOwner
+  createdAt: string
+}
+
+const batches = new Map<string, BatchRecord>()
+
+function batchState(counts: Record<JobState, number>, total: number): BatchState {
+  if (counts.queued === total) return 'queued'
+  if (counts.queued + counts.running > 0) return 'running'
+  if (counts.succeeded === total) return 'succeeded'
+  if (counts.succeeded > 0) return 'partial'
+  return counts.cancelled === total ? 'cancelled' : 'failed'
+}
+
+function toBatch(record: BatchRecord): Batch {
+  const counts: Record<JobState, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 }
+
+  const items = record.jobs.map((stored, index): BatchItem => {
+    // The registry copy has fresh queue info while the job is still known
+    const job = getJob(stored.id) || stored
+    counts[job.state]++
+    return {
+      index,
+      jobId: job.id,
+      state: job.state,
+      prompt: job.request.prompt,
+      queuePosition: job.queuePosition,
+      videoUrls: job.videoUrls,
+      videos: job.videos,
+      failedCount: job.failedCount,
+      failures: job.failures,
+      ingredients: job.ingredients,
+      projectUrl: job.projectUrl,
+      error: job.error,
+      errorCode: job.errorCode,
+    }
+  })
+
+  const finished = record.jobs.every(job => FINISHED_JOB_STATES.includes(job.state))
+  const finishedAt = finished
+    ? record.jobs.map(job => job.finishedAt || '').sort().pop()
+    : undefined
+
+  return {
+    id: record.id,
+    state: batchState(counts, record.jobs.length),
+    submittedBy: record.submittedBy,
+    createdAt: record.createdAt,
+    finishedAt,
+    counts,
+    items,
+  }
+}
+
+// Drop the oldest finished batches once we go over the retention limit
+function pruneBatches() {
+  const finished = Array.from(batches.values())
+    .filter(record => record.jobs.every(job => FINISHED_JOB_STATES.includes(job.state)))
+  const excess = batches.size - MAX_BATCHES
+  for (let i = 0; i < Math.min(excess, finished.length); i++) {
+    batches.delete(finished[i].id)
+  }
+}
+
+/**
+ * Create one job per item and queue them all, or none when the queue can't take the whole batch
+ * Frame and ingredient files in the options are deleted once each job finishes, or straight away when rejected
+ */
+export function submitBatch(items: VideoGenerationOptions[], options: SubmitBatchOptions = {}): SubmitBatchResult {
+  const available = getQueueCapacity()
+
+  if (available < items.length) {
+    void removeFrameFiles(items.flatMap(optionImagePaths))
+    const { averageRunMs, concurrency } = getQueueStats()
+    return {
+      accepted: false,
+      available,
+      retryAfterSeconds: Math.ceil((items.length - available) * averageRunMs / concurrency / 1000),
+    }
+  }
+
+  const record: BatchRecord = {
+    id: crypto.randomUUID(),
+    jobs: [],
+    submittedBy: options.submittedBy,
+    createdAt: new Date().toISOString(),
+  }
+
+  for (const item of items) {
+    const submitted = submitJob(item, { priority: options.priority, submittedBy: options.submittedBy, batchId: record.id })
+    // Capacity was checked above and this loop is synchronous, so rejection would be a queue bug
+    if (submitted.accepted) {
+      record.jobs.push(submitted.job)
+    } else {
+      console.error(`[Batches] Queue rejected item ${record.jobs.length} of batch ${record.id}`)
+    }
+  }
+
+  batches.set(record.id, record)
+  pruneBatches()
+  console.log(`[Batches] ${record.id.substring(0, 8)}: queued ${record.jobs.length} job(s)`)
+
+  return { accepted: true, batch: toBatch(record) }
+}
+
+export function getBatch(id: string): Batch | undefined {
+  const record = batches.get(id)
+  return record && toBatch(record)
+}
+
+/**
+ * Cancel every unfinished item of a batch - queued items straight away, running ones once their browser run stops
+ */
+export function cancelBatch(id: string): { batch: Batch; cancelled: number; cancelling: number } | undefined {
+  const record = batches.get(id)
+  if (!record) return undefined
+
+  const results = record.jobs.map(job => cancelJob(job.id))
+  const cancelled = results.filter(result => result === 'cancelled').length
+  const cancelling = results.filter(result => result === 'cancelling').length
+  console.log(`[Batches] ${id.substring(0, 8)}: cancelled ${cancelled} queued job(s), stopping ${cancelling} running`)
+
+  return { batch: toBatch(record), cancelled, cancelling }
+}
@@ -0,0 +1,456 @@
+// src/lib/browser-pool.ts
+// Browser profile pool - each profile is one signed-in Google account, reached through its own
+// persistent profile directory or a CDP endpoint. Picks a profile per run and takes unhealthy ones out of rotation
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// Configuration from environment variables
+const BROWSER_PROFILES_FILE = process.env.BROWSER_PROFILES_FILE || path.join(os.homedir(), '.veo-browser-profiles.json')
+const HEADLESS_MODE = process.env.HEADLESS_MODE === 'true'
+const PROFILE_QUOTA_COOLDOWN_MS = Number(process.env.PROFILE_QUOTA_COOLDOWN_MS) || 60 * 60 * 1000
+const PROFILE_LAUNCH_COOLDOWN_MS = Number(process.env.PROFILE_LAUNCH_COOLDOWN_MS) || 5 * 60 * 1000
+const PROFILE_WAIT_TIMEOUT_MS = Number(process.env.PROFILE_WAIT_TIMEOUT_MS) || 5 * 60 * 1000
+
+// The single profile used when no profiles file exists - same locations as before the pool
+const DEFAULT_PROFILE_DIR = process.env.PLAYWRIGHT_PROFILE_DIR || path.join(os.homedir(), '.playwright-veo-profile')
+const DEFAULT_CDP_ENDPOINT = 'http://localhost:9222'
+
+export type PoolStrategy = 'round-robin' | 'least-busy'
+
+export const POOL_STRATEGIES: PoolStrategy[] = ['round-robin', 'least-busy']
+
+export type BrowserProfile = {
+  id: string
+  // Tried first when set (skipped in headless mode); userDataDir is the fallback
+  cdpEndpoint?: string
+  userDataDir?: string
+  // Generations this profile runs at the same time
+  maxConcurrent: number
+  headless: boolean
+}
+
+// Why a profile was taken out of rotation
+// session-invalid stays excluded until reset; the others expire after a cooldown
+export type ProfileIssue = 'session-invalid' | 'quota-exhausted' | 'launch-failed'
+
+// What the last run or sign-in check saw of the profile's Google session
+export type SessionState = 'unknown' | 'valid' | 'expired'
+
+// How a signed-out profile showed up: bounced to sign-in, or stuck on a consent screen
+export type SessionProblem = 'sign-in' | 'consent'
+
+export type BrowserProfileStatus = BrowserProfile & {
+  // signing-in: a re-login window is open, so the profile is out of rotation
+  status: 'available' | 'busy' | 'excluded' | 'signing-in'
+  session: SessionState
+  sessionProblem?: SessionProblem
+  sessionCheckedAt?: string
+  reloginStartedAt?: string
+  active: number
+  runs: number
+  failures: number
+  lastUsedAt?: string
+  excludedReason?: ProfileIssue
+  excludedAt?: string
+  excludedUntil?: string
+}
+
+export type RunOutcome = {
+  failed: boolean
+  issue?: ProfileIssue
+  sessionProblem?: SessionProblem
+}
+
+export type AcquireOptions = {
+  // How long to wait for a busy profile, PROFILE_WAIT_TIMEOUT_MS by default
+  timeoutMs?: number
+  // Stops waiting - the acquire resolves null
+  signal?: AbortSignal
+  // Called once when no matching profile is free and the caller starts waiting
+  onWait?: () => void
+}
+
+export type BeginReloginResult =
+  | { started: true; profile: BrowserProfile }
+  | { started: false; reason: 'not-found' | 'busy' | 'in-progress' | 'no-profile-dir' }
+
+type ProfileState = {
+  profile: BrowserProfile
+  session: SessionState
+  sessionProblem?: SessionProblem
+  sessionCheckedAt?: number
+  reloginStartedAt?: number
+  active: number
+  runs: number
+  failures: number
+  lastUsedAt?: number
+  excludedReason?: ProfileIssue
+  excludedAt?: number
+  excludedUntil?: number
+}
+
+let strategy: PoolStrategy = 'round-robin'
+let profiles: ProfileState[] | null = null
+// Index of the last profile handed out by round-robin
+let cursor = -1
+
+type Waiter = {
+  // Only this profile will do, when set
+  id?: string
+  settle: (profile: BrowserProfile | null) => void
+}
+
+// Callers waiting for a busy profile, served in arrival order whenever a slot frees up
+const waiters: Waiter[] = []
+
+const COOLDOWNS: Record<ProfileIssue, number | undefined> = {
+  'session-invalid': undefined,
+  'quota-exhausted': PROFILE_QUOTA_COOLDOWN_MS,
+  'launch-failed': PROFILE_LAUNCH_COOLDOWN_MS,
+}
+
+function parseProfile(input: unknown, index: number): BrowserProfile {
+  const raw = (input || {}) as Record<string, unknown>
+  const where = `profiles[${index}]`
+
+  if (typeof raw.id !== 'string' || !raw.id) {
+    throw new Error(`${where}.id must be a non-empty string`)
+  }
+  if (raw.userDataDir !== undefined && typeof raw.userDataDir !== 'string') {
+    throw new Error(`${where}.userDataDir must be a string`)
+  }
+  if (raw.cdpEndpoint !== undefined && typeof raw.cdpEndpoint !== 'string') {
+    throw new Error(`${where}.cdpEndpoint must be a string`)
+  }
+  if (!raw.userDataDir && !raw.cdpEndpoint) {
+    throw new Error(`${where} needs a userDataDir or a cdpEndpoint`)
+  }
+  if (raw.maxConcurrent !== undefined && (!Number.isInteger(raw.maxConcurrent) || (raw.maxConcurrent as number) < 1)) {
+    throw new Error(`${where}.maxConcurrent must be a positive integer`)
+  }
+
+  return {
+    id: raw.id,
+    cdpEndpoint: raw.cdpEndpoint as string | undefined,
+    userDataDir: raw.userDataDir ? path.resolve((raw.userDataDir as string).replace(/^~(?=$|\/)/, os.homedir())) : undefined,
+    maxConcurrent: (raw.maxConcurrent as number | undefined) || 1,
+    headless: typeof raw.headless === 'boolean' ? raw.headless : HEADLESS_MODE,
+  }
+}
+
+/**
+ * Load the profile pool from BROWSER_PROFILES_FILE, or fall back to the single default profile
+ * Throws on an invalid file so the server refuses to start with a broken pool
+ */
+export function loadBrowserProfiles() {
+  if (!fs.existsSync(BROWSER_PROFILES_FILE)) {
+    strategy = 'round-robin'
+    profiles = [{
+      profile: { id: 'default', cdpEndpoint: DEFAULT_CDP_ENDPOINT, userDataDir: DEFAULT_PROFILE_DIR, maxConcurrent: 1, headless: HEADLESS_MODE },
+      session: 'unknown',
+      active: 0,
+      runs: 0,
+      failures: 0,
+    }]
+    console.log(`[Pool] No ${BROWSER_PROFILES_FILE}, using the default profile`)
+    return
+  }
+
+  const config = JSON.parse(fs.readFileSync(BROWSER_PROFILES_FILE, 'utf8'))
+
+  if (config.strategy !== undefined && !POOL_STRATEGIES.includes(config.strategy)) {
+    throw new Error(`${BROWSER_PROFILES_FILE}: strategy must be one of: ${POOL_STRATEGIES.join(', ')}`)
+  }
+  if (!Array.isArray(config.profiles) || config.profiles.length === 0) {
+    throw new Error(`${BROWSER_PROFILES_FILE}: profiles must be a non-empty array`)
+  }
+
+  let parsed: BrowserProfile[]
+  try {
+    parsed = config.profiles.map(parseProfile)
+  } catch (error) {
+    throw new Error(`${BROWSER_PROFILES_FILE}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const ids = parsed.map(profile => profile.id)
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index)
+  if (duplicate) {
+    throw new Error(`${BROWSER_PROFILES_FILE}: duplicate profile id "${duplicate}"`)
+  }
+
+  strategy = config.strategy || 'round-robin'
+  profiles = parsed.map(profile => ({ profile, session: 'unknown' as SessionState, active: 0, runs: 0, failures: 0 }))
+  cursor = -1
+  console.log(`[Pool] Loaded ${profiles.length} browser profile(s) from ${BROWSER_PROFILES_FILE} (${strategy})`)
+}
+
+function getProfiles(): ProfileState[] {
+  if (!profiles) loadBrowserProfiles()
+  return profiles!
+}
+
+// Clears cooldown exclusions that have run out
+function isExcluded(state: ProfileState, now = Date.now()): boolean {
+  if (state.excludedReason && state.excludedUntil !== undefined && state.excludedUntil <= now) {
+    console.log(`[Pool] Profile ${state.profile.id} back in rotation after ${state.excludedReason}`)
+    state.excludedReason = undefined
+    state.excludedAt = undefined
+    state.excludedUntil = undefined
+  }
+  return !!state.excludedReason
+}
+
+const hasRoom = (state: ProfileState) =>
+  !isExcluded(state) && state.reloginStartedAt === undefined && state.active < state.profile.maxConcurrent
+
+function findProfile(id: string): ProfileState | undefined {
+  return getProfiles().find(candidate => candidate.profile.id === id)
+}
+
+function clearExclusion(state: ProfileState) {
+  state.excludedReason = undefined
+  state.excludedAt = undefined
+  state.excludedUntil = undefined
+}
+
+function recordSession(state: ProfileState, session: SessionState, problem?: SessionProblem) {
+  state.session = session
+  state.sessionProblem = problem
+  state.sessionCheckedAt = Date.now()
+}
+
+// Pick a healthy profile with a free slot and mark it busy, or null when none has room
+function takeProfile(id?: string): BrowserProfile | null {
+  const all = getProfiles()
+  let chosen: ProfileState | undefined
+
+  if (id) {
+    const state = findProfile(id)
+    chosen = state && hasRoom(state) ? state : undefined
+  } else if (strategy === 'least-busy') {
+    chosen = all
+      .filter(hasRoom)
+      .sort((a, b) =>
+        a.active / a.profile.maxConcurrent - b.active / b.profile.maxConcurrent ||
+        (a.lastUsedAt || 0) - (b.lastUsedAt || 0)
+      )[0]
+  } else {
+    for (let step = 1; step <= all.length; step++) {
+      const index = (cursor + step) % all.length
+      if (hasRoom(all[index])) {
+        chosen = all[index]
+        cursor = index
+        break
+      }
+    }
+  }
+
+  if (!chosen) return null
+
+  chosen.active++
+  chosen.runs++
+  chosen.lastUsedAt = Date.now()
+  return chosen.profile
+}
+
+// Whether the profile (or, without an id, any profile) is in rotation, so waiting for a slot can pay off
+function canServe(id?: string): boolean {
+  if (!id) return getPoolCapacity() > 0
+  const state = findProfile(id)
+  return !!state && !isExcluded(state) && state.reloginStartedAt === undefined
+}
+
+// Hand freed slots to waiting callers in arrival order, and turn away those whose profile left rotation
+function serveWaiters() {
+  for (const waiter of [...waiters]) {
+    if (!canServe(waiter.id)) {
+      waiter.settle(null)
+      continue
+    }
+    const profile = takeProfile(waiter.id)
+    if (profile) waiter.settle(profile)
+  }
+}
+
+/**
+ * Mark a healthy profile busy, waiting up to options.timeoutMs while every matching profile is busy
+ * With an id, only that profile is considered - runs that must use the account owning a project
+ * Resolves null on timeout, on abort, or straight away when no matching profile is in rotation
+ * Every acquired profile must be handed back with releaseProfile
+ */
+export function acquireProfile(id?: string, options: AcquireOptions = {}): Promise<BrowserProfile | null> {
+  const profile = takeProfile(id)
+  if (profile || !canServe(id) || options.signal?.aborted) {
+    return Promise.resolve(profile)
+  }
+
+  return new Promise(resolve => {
+    const onAbort = () => waiter.settle(null)
+    const timer = setTimeout(() => waiter.settle(null), options.timeoutMs ?? PROFILE_WAIT_TIMEOUT_MS)
+    const waiter: Waiter = {
+      id,
+      settle: (acquired) => {
+        const index = waiters.indexOf(waiter)
+        if (index === -1) return
+        waiters.splice(index, 1)
+        clearTimeout(timer)
+        options.signal?.removeEventListener('abort', onAbort)
+        resolve(acquired)
+      },
+    }
+
+    waiters.push(waiter)
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+    console.log(`[Pool] Waiting for ${id ? `profile ${id}` : 'a free profile'} (${waiters.length} waiting)`)
+    options.onWait?.()
+  })
+}
+
+/**
+ * Hand a profile back after a run, excluding it when the run showed the account can't be used
+ */
+export function releaseProfile(id: string, outcome: RunOutcome) {
+  const state = findProfile(id)
+  if (!state) return
+
+  state.active = Math.max(0, state.active - 1)
+  if (outcome.failed) state.failures++
+
+  // Only a completed run or a detected sign-out says anything about the session
+  if (outcome.issue === 'session-invalid') {
+    recordSession(state, 'expired', outcome.sessionProblem)
+  } else if (!outcome.failed) {
+    recordSession(state, 'valid')
+  }
+
+  if (outcome.issue) {
+    const cooldown = COOLDOWNS[outcome.issue]
+    state.excludedReason = outcome.issue
+    state.excludedAt = Date.now()
+    state.excludedUntil = cooldown === undefined ? undefined : Date.now() + cooldown
+    console.log(`[Pool] Profile ${id} excluded: ${outcome.issue}${cooldown ? ` for ${Math.round(cooldown / 60000)} min` : ' until reset'}`)
+  }
+
+  serveWaiters()
+}
+
+/**
+ * Generations the healthy profiles can run at once - the generation queue's concurrency
+ */
+export function getPoolCapacity(): number {
+  return getProfiles()
+    .filter(state => !isExcluded(state) && state.reloginStartedAt === undefined)
+    .reduce((total, state) => total + state.profile.maxConcurrent, 0)
+}
+
+/**
+ * Why no profile could be acquired, for job error messages
+ */
+export function describePoolUnavailable(): string {
+  const excluded = getProfiles().filter(state => isExcluded(state) || state.reloginStartedAt !== undefined)
+  if (excluded.length === 0) {
+    return 'All browser profiles are busy'
+  }
+  const reasons = excluded.map(state => `${state.profile.id}: ${state.excludedReason || 'signing in'}`).join(', ')
+  return `No browser profile available (${reasons})`
+}
+
+function toStatus(state: ProfileState): BrowserProfileStatus {
+  const excluded = isExcluded(state)
+  const toIso = (time?: number) => time === undefined ? undefined : new Date(time).toISOString()
+  return {
+    ...state.profile,
+    status: state.reloginStartedAt !== undefined ? 'signing-in'
+      : excluded ? 'excluded'
+      : state.active >= state.profile.maxConcurrent ? 'busy' : 'available',
+    session: state.session,
+    sessionProblem: state.sessionProblem,
+    sessionCheckedAt: toIso(state.sessionCheckedAt),
+    reloginStartedAt: toIso(state.reloginStartedAt),
+    active: state.active,
+    runs: state.runs,
+    failures: state.failures,
+    lastUsedAt: toIso(state.lastUsedAt),
+    excludedReason: state.excludedReason,
+    excludedAt: toIso(state.excludedAt),
+    excludedUntil: toIso(state.excludedUntil),
+  }
+}
+
+export function listBrowserProfiles(): { strategy: PoolStrategy; profiles: BrowserProfileStatus[] } {
+  return { strategy, profiles: getProfiles().map(toStatus) }
+}
+
+export type SessionStatus = {
+  // valid when any profile has a working session, expired when every profile is signed out
+  session: SessionState
+  profiles: Pick<BrowserProfileStatus, 'id' | 'status' | 'session' | 'sessionProblem' | 'sessionCheckedAt' | 'reloginStartedAt'>[]
+}
+
+/**
+ * Session health per profile, without the profile's paths and endpoints
+ */
+export function getSessionStatus(): SessionStatus {
+  const profiles = getProfiles().map(toStatus).map(status => ({
+    id: status.id,
+    status: status.status,
+    session: status.session,
+    sessionProblem: status.sessionProblem,
+    sessionCheckedAt: status.sessionCheckedAt,
+    reloginStartedAt: status.reloginStartedAt,
+  }))
+
+  const session: SessionState = profiles.some(profile => profile.session === 'valid') ? 'valid'
+    : profiles.every(profile => profile.session === 'expired') ? 'expired'
+    : 'unknown'
+
+  return { session, profiles }
+}
+
+/**
+ * Put an excluded profile back into rotation, e.g. after signing it in again
+ */
+export function resetBrowserProfile(id: string): BrowserProfileStatus | undefined {
+  const state = findProfile(id)
+  if (!state) return undefined
+
+  clearExclusion(state)
+  console.log(`[Pool] Profile ${id} reset`)
+  serveWaiters()
+  return toStatus(state)
+}
+
+/**
+ * Take an idle profile out of rotation while an operator signs it in again
+ * Only profiles with a profile directory can be relaunched in a visible window
+ */
+export function beginRelogin(id: string): BeginReloginResult {
+  const state = findProfile(id)
+  if (!state) return { started: false, reason: 'not-found' }
+  if (state.reloginStartedAt !== undefined) return { started: false, reason: 'in-progress' }
+  if (!state.profile.userDataDir) return { started: false, reason: 'no-profile-dir' }
+  if (state.active > 0) return { started: false, reason: 'busy' }
+
+  state.reloginStartedAt = Date.now()
+  console.log(`[Pool] Profile ${id} out of rotation for re-login`)
+  return { started: true, profile: state.profile }
+}
+
+/**
+ * Put a profile back into rotation after a re-login window closes
+ * A successful sign-in also lifts a session-invalid exclusion
+ */
+export function endRelogin(id: string, signedIn: boolean) {
+  const state = findProfile(id)
+  if (!state) return
+
+  state.reloginStartedAt = undefined
+  if (signedIn) {
+    recordSession(state, 'valid')
+    clearExclusion(state)
+  }
+  console.log(`[Pool] Profile ${id} re-login ${signedIn ? 'succeeded' : 'ended without sign-in'}`)
+  serveWaiters()
+}
@@ -0,0 +1,206 @@
+// src/lib/errors.ts
+// Error taxonomy - every failure the API reports carries a stable code, an HTTP status,
+// a retryable flag and a message that is safe to show clients. Raw causes stay server-side
+
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'AUTH_REQUIRED'
+  | 'AUTH_INVALID'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'QUEUE_FULL'
+  | 'BROWSER_LAUNCH_FAILED'
+  | 'BROWSER_UNAVAILABLE'
+  | 'SESSION_EXPIRED'
+  | 'ACCOUNT_QUOTA_EXHAUSTED'
+  | 'UI_ELEMENT_NOT_FOUND'
+  | 'GENERATION_FAILED'
+  | 'CONTENT_POLICY_BLOCKED'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR'
+
+type ErrorDefinition = {
+  status: number
+  // Whether sending the same request again later can succeed
+  retryable: boolean
+  // Used when an error is created without a more specific message
+  message: string
+}
+
+export const ERROR_DEFINITIONS: Record<ErrorCode, ErrorDefinition> = {
+  VALIDATION_FAILED: { status: 400, retryable: false, message: 'Invalid request body' },
+  AUTH_REQUIRED: { status: 401, retryable: false, message: 'API key required. Use header: x-api-key or Authorization: Bearer <key>' },
+  AUTH_INVALID: { status: 403, retryable: false, message: 'Invalid API key' },
+  FORBIDDEN: { status: 403, retryable: false, message: 'API key is not allowed to do this' },
+  NOT_FOUND: { status: 404, retryable: false, message: 'Not found' },
+  CONFLICT: { status: 409, retryable: false, message: 'Request conflicts with the current state' },
+  PAYLOAD_TOO_LARGE: { status: 413, retryable: false, message: 'Request body is too large' },
+  RATE_LIMITED: { status: 429, retryable: true, message: 'Too many requests' },
+  QUOTA_EXCEEDED: { status: 429, retryable: true, message: 'Daily generation quota reached for this API key' },
+  QUEUE_FULL: { status: 429, retryable: true, message: 'Generation queue is full' },
+  BROWSER_LAUNCH_FAILED: { status: 503, retryable: true, message: 'Could not start the browser' },
+  BROWSER_UNAVAILABLE: { status: 503, retryable: true, message: 'No browser profile is available' },
+  SESSION_EXPIRED: { status: 503, retryable: true, message: 'The Google session has expired and needs to be signed in again' },
+  ACCOUNT_QUOTA_EXHAUSTED: { status: 503, retryable: true, message: 'The Flow account has no generation quota left' },
+  UI_ELEMENT_NOT_FOUND: { status: 502, retryable: true, message: 'Could not find an expected element in Flow' },
+  GENERATION_FAILED: { status: 502, retryable: true, message: 'Video generation failed' },
+  CONTENT_POLICY_BLOCKED: { status: 422, retryable: false, message: 'The prompt or frames were blocked by the content policy' },
+  TIMEOUT: { status: 504, retryable: true, message: 'Timed out waiting for Flow' },
+  CANCELLED: { status: 409, retryable: false, message: 'Job was cancelled' },
+  INTERNAL_ERROR: { status: 500, retryable: true, message: 'Internal server error' },
+}
+
+// What clients see for any error
+export type ErrorBody = {
+  error: string
+  code: ErrorCode
+  retryable: boolean
+  [extra: string]: unknown
+}
+
+/**
+ * Base class for every error the API reports
+ * message must be safe to show clients; put raw failures in cause
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly retryable: boolean
+
+  constructor(
+    readonly code: ErrorCode,
+    message = ERROR_DEFINITIONS[code].message,
+    // Extra fields merged into the response body
+    readonly extra: Record<string, unknown> = {},
+    // Underlying error, logged but never sent to clients
+    readonly cause?: unknown
+  ) {
+    super(message)
+    this.name = new.target.name
+    this.status = ERROR_DEFINITIONS[code].status
+    this.retryable = ERROR_DEFINITIONS[code].retryable
+  }
+
+  toBody(): ErrorBody {
+    return { error: this.message, code: this.code, retryable: this.retryable, ...this.extra }
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message = ERROR_DEFINITIONS.VALIDATION_FAILED.message, details?: unknown) {
+    super('VALIDATION_FAILED', message, details === undefined ? {} : { details })
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(code: 'AUTH_REQUIRED' | 'AUTH_INVALID' | 'FORBIDDEN', message?: string) {
+    super(code, message)
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message?: string) {
+    super('NOT_FOUND', message)
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message?: string, extra?: Record<string, unknown>) {
+    super('CONFLICT', message, extra)
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message?: string) {
+    super('PAYLOAD_TOO_LARGE', message)
+  }
+}
+
+// Rejected for now - retryAfterSeconds says when trying again makes sense
+export class RateLimitError extends ApiError {
+  constructor(
+    code: 'RATE_LIMITED' | 'QUOTA_EXCEEDED' | 'QUEUE_FULL',
+    message?: string,
+    retryAfterSeconds?: number,
+    extra: Record<string, unknown> = {}
+  ) {
+    super(code, message, retryAfterSeconds === undefined ? extra : { retryAfterSeconds, ...extra })
+  }
+}
+
+export class BrowserLaunchError extends ApiError {
+  constructor(readonly profileId: string, cause?: unknown) {
+    super('BROWSER_LAUNCH_FAILED', undefined, {}, cause)
+  }
+}
+
+export class BrowserUnavailableError extends ApiError {
+  constructor(message?: string) {
+    super('BROWSER_UNAVAILABLE', message)
+  }
+}
+
+// sign-in: bounced to the Google sign-in page; consent: stuck on a consent screen
+export class SessionExpiredError extends ApiError {
+  constructor(readonly profileId: string, readonly problem: 'sign-in' | 'consent') {
+    super('SESSION_EXPIRED')
+  }
+}
+
+export class AccountQuotaError extends ApiError {
+  constructor(readonly profileId: string) {
+    super('ACCOUNT_QUOTA_EXHAUSTED')
+  }
+}
+
+export class ElementNotFoundError extends ApiError {
+  constructor(readonly element: string, readonly stage: string, cause?: unknown) {
+    super('UI_ELEMENT_NOT_FOUND', `Could not find the ${element} in Flow during ${stage}`, { stage }, cause)
+  }
+}
+
+export class GenerationFailedError extends ApiError {
+  constructor(message?: string, extra?: Record<string, unknown>) {
+    super('GENERATION_FAILED', message, extra)
+  }
+}
+
+export class ContentPolicyError extends ApiError {
+  constructor(message?: string, extra?: Record<string, unknown>) {
+    super('CONTENT_POLICY_BLOCKED', message, extra)
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(readonly stage: string, cause?: unknown) {
+    super('TIMEOUT', `Timed out waiting for Flow during ${stage}`, { stage }, cause)
+  }
+}
+
+export class CancelledError extends ApiError {
+  constructor(message?: string, extra?: Record<string, unknown>) {
+    super('CANCELLED', message, extra)
+  }
+}
+
+export class InternalError extends ApiError {
+  constructor(cause?: unknown) {
+    super('INTERNAL_ERROR', undefined, {}, cause)
+  }
+}
+
+/**
+ * Normalize anything thrown into an ApiError
+ * Playwright timeouts become TIMEOUT for the given stage; anything unknown becomes INTERNAL_ERROR
+ */
+export function toApiError(error: unknown, stage?: string): ApiError {
+  if (error instanceof ApiError) return error
+  if (stage && error instanceof Error && error.name === 'TimeoutError') {
+    return new TimeoutError(stage, error)
+  }
+  return new InternalError(error)
+}
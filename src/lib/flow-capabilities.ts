@@ -0,0 +1,64 @@
+// src/lib/flow-capabilities.ts
+// What Flow's settings panel offers - models and the other dropdowns - as last read from the UI,
+// cached so requests can be checked against it without opening a browser
+
+import { normalizeOptionText, type FlowSetting } from './flow-page'
+import type { ValidationIssue } from './validation'
+
+// Configuration from environment variables
+const CAPABILITIES_CACHE_MS = Number(process.env.CAPABILITIES_CACHE_MS) || 6 * 60 * 60 * 1000
+
+export type FlowCapabilities = {
+  // Options of the Model dropdown, as accepted by the model option
+  models: string[]
+  // Model a new project starts with
+  defaultModel?: string
+  // Every dropdown in the settings panel, including ones the API doesn't set
+  settings: FlowSetting[]
+  profileId: string
+  discoveredAt: string
+  expiresAt: string
+}
+
+let cached: FlowCapabilities | null = null
+
+/**
+ * The last discovered capabilities, or null when none were read or they have expired
+ */
+export function getCachedCapabilities(): FlowCapabilities | null {
+  if (cached && Date.parse(cached.expiresAt) <= Date.now()) {
+    cached = null
+  }
+  return cached
+}
+
+/**
+ * Build and cache capabilities from the settings panel as read on one profile
+ */
+export function cacheCapabilities(settings: FlowSetting[], profileId: string): FlowCapabilities {
+  const model = settings.find(setting => setting.name === 'model')
+  const now = Date.now()
+
+  cached = {
+    models: model?.options || [],
+    defaultModel: model?.value || undefined,
+    settings,
+    profileId,
+    discoveredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CAPABILITIES_CACHE_MS).toISOString(),
+  }
+  console.log(`[Capabilities] ${cached.models.length} model(s): ${cached.models.join(', ') || 'none found'}`)
+  return cached
+}
+
+/**
+ * Check a requested model against the cached model list
+ * Anything goes while nothing is cached - the run itself reports a model Flow doesn't offer
+ */
+export function checkModel(model: unknown): ValidationIssue | null {
+  const models = getCachedCapabilities()?.models
+  if (typeof model !== 'string' || !models?.length) return null
+
+  if (models.some(name => normalizeOptionText(name) === normalizeOptionText(model))) return null
+  return { field: 'model', message: `must be one of: ${models.join(', ')}` }
+}
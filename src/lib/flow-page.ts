@@ -0,0 +1,866 @@
+// src/lib/flow-page.ts
+// Page object for the Flow UI - each step of a generation as one operation,
+// located through the selector map in flow-selectors
+
+import type { Page, Locator } from 'playwright'
+import { sleep, humanDelay, humanClick, humanType, humanScroll, humanIdleMovement } from './human'
+import { flowSelector, getFlowSelectors, SELECTOR_CONTEXTS, type FlowSelectorName, type SelectorContext } from './flow-selectors'
+import { SessionExpiredError, ElementNotFoundError, NotFoundError } from './errors'
+import { resolveGenerationPolicy, type GenerationPolicy } from './generation-policy'
+import type { SessionProblem } from './browser-pool'
+import type { GenerationMode } from './playwright-veo'
+
+// Base URL - the landing page lists projects or, on some layouts, drops straight into a new one
+// Point FLOW_BASE_URL at the mock Flow site (npm run mock-flow) to run the automation offline
+export const FLOW_BASE_URL = (process.env.FLOW_BASE_URL || 'https://labs.google/fx/tools/flow/').replace(/\/?$/, '/')
+const PROJECT_URL_PREFIX = FLOW_BASE_URL + 'project/'
+const PROJECT_URL_PATTERN = new RegExp(PROJECT_URL_PREFIX.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+
+/**
+ * Whether a URL points at a project on the configured Flow site
+ */
+export function isFlowProjectUrl(url: string): boolean {
+  return url.startsWith(PROJECT_URL_PREFIX) && /^[^/?#]+/.test(url.slice(PROJECT_URL_PREFIX.length))
+}
+
+/**
+ * URL of a project on the configured Flow site, from its ID
+ */
+export function flowProjectUrl(projectId: string): string {
+  return PROJECT_URL_PREFIX + encodeURIComponent(projectId)
+}
+
+/**
+ * ID of a project from its URL - the path segment after project/
+ */
+export function projectIdFromUrl(url: string): string {
+  return decodeURIComponent(url.slice(PROJECT_URL_PREFIX.length).split(/[/?#]/)[0])
+}
+
+// Signed video URLs get a new query string each time the page loads; the path names the clip
+export const clipKey = (url: string) => url.split('?')[0]
+
+// Path generated videos are served under (storage.googleapis.com on the real site)
+const VIDEO_URL_MARKER = '/ai-sandbox-videofx/video/'
+
+// Option text for each aspect ratio in the settings panel
+const ASPECT_RATIO_TEXT = {
+  landscape: '16:9',
+  portrait: '9:16',
+}
+
+export type AspectRatio = keyof typeof ASPECT_RATIO_TEXT
+
+// Mode dropdown option for each mode a new project has to be switched to
+const MODE_OPTIONS: Record<Exclude<GenerationMode, 'text-to-video'>, FlowSelectorName> = {
+  'frames-to-video': 'framesToVideoOption',
+  'ingredients-to-video': 'ingredientsToVideoOption',
+}
+
+// Values used for {placeholders} when the self-check looks for option selectors
+const CHECK_VALUES = { ratio: ASPECT_RATIO_TEXT.landscape, count: 1, orientation: 'Landscape' }
+
+// What the output area shows on one poll
+export type FlowTiles = {
+  videoUrls: string[]
+  // Text of each tile showing "Failed Generation", in page order
+  failedTiles: string[]
+  // Tiles still rendering
+  pending: number
+  // Alert toasts and banners - policy rejections can show up here without any tile
+  notices: string[]
+}
+
+// Which clip to extend: its video URL, or its position among the project's clips in page order
+export type ClipTarget = {
+  clipUrl?: string
+  clipIndex?: number
+}
+
+// A finished clip as its tile shows it - what Flow lists besides the video is best effort
+export type FlowClip = {
+  videoUrl: string
+  prompt?: string
+  model?: string
+  aspectRatio?: AspectRatio
+  // Every chip or detail line of the tile, as shown
+  details: string[]
+}
+
+// A project as listed on Flow's landing page
+export type FlowProjectSummary = {
+  id: string
+  url: string
+  name?: string
+}
+
+// One dropdown of the settings panel as the UI shows it
+export type FlowSetting = {
+  // model, aspectRatio or outputsCount for the dropdowns the automation sets, otherwise the label
+  name: string
+  label: string
+  // Option shown as selected
+  value: string
+  options: string[]
+}
+
+// Outcome of picking a model: the option chosen, or null with what was on offer
+export type ModelChoice = {
+  selected: string | null
+  available: string[]
+}
+
+// found / missing: checked on the page; not-shown: only present on some pages, so not a failure;
+// skipped: needs an upload or a generation to appear
+export type SelectorCheckStatus = 'found' | 'missing' | 'not-shown' | 'skipped'
+
+export type SelectorCheck = {
+  name: FlowSelectorName
+  selector: string
+  context: SelectorContext
+  status: SelectorCheckStatus
+  matches?: number
+}
+
+export type FlowPageOptions = {
+  profileId: string
+  log: (msg: string) => void
+  signal?: AbortSignal
+  // Only the settle wait is used here; defaults to the global policy
+  policy?: GenerationPolicy
+}
+
+export type FlowPage = {
+  page: Page
+  openNewProject(): Promise<string>
+  openProject(projectUrl: string): Promise<string>
+  renameProject(name: string): Promise<boolean>
+  listProjects(): Promise<FlowProjectSummary[]>
+  waitUntilReady(): Promise<void>
+  selectMode(mode: GenerationMode): Promise<boolean>
+  setAspectRatio(aspectRatio: AspectRatio): Promise<boolean>
+  setOutputsCount(count: number): Promise<boolean>
+  setModel(model: string): Promise<ModelChoice>
+  readSettings(): Promise<FlowSetting[]>
+  uploadFrame(filePath: string, frameName: string, aspectRatio: AspectRatio): Promise<boolean>
+  enterPrompt(prompt: string): Promise<void>
+  submit(): Promise<void>
+  readTiles(): Promise<FlowTiles>
+  retryTiles(indexes: number[]): Promise<number>
+  extendClip(target: ClipTarget): Promise<string>
+  readScene(): Promise<string[]>
+  readClips(): Promise<FlowClip[]>
+  assertSignedIn(): Promise<void>
+  checkSelectors(): Promise<SelectorCheck[]>
+}
+
+// isVisible without throwing on a closed page or a bad selector
+const isShown = (locator: Locator, timeout = 1000) => locator.isVisible({ timeout }).catch(() => false)
+
+// Options and dropdowns can carry a description under their name; the first line is the name
+const firstLine = (text: string) => text.split('\n').map(line => line.trim()).find(Boolean) || ''
+
+// Option text compared the way a person reads it
+export const normalizeOptionText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase()
+
+// Dropdowns the automation sets, by the name FlowSetting reports them under
+const NAMED_DROPDOWNS: Record<string, FlowSelectorName> = {
+  model: 'modelDropdown',
+  aspectRatio: 'aspectRatioDropdown',
+  outputsCount: 'outputsDropdown',
+}
+
+/**
+ * Whether the page shows a signed-out session: the Google sign-in redirect,
+ * a consent screen, or Flow's own landing page offering to sign in
+ */
+export async function detectSessionProblem(page: Page): Promise<SessionProblem | null> {
+  const url = page.url()
+  if (/^https:\/\/consent\.google\.com|\/signin\/oauth\/consent/.test(url)) return 'consent'
+  if (/^https:\/\/accounts\.google\.com/.test(url)) return 'sign-in'
+
+  if (await isShown(page.locator(flowSelector('signInButton')).first())) return 'sign-in'
+  return null
+}
+
+/**
+ * Wrap a page in the Flow operations
+ * Operations throw typed errors (lib/errors) for the failures callers act on;
+ * optional steps return false when the UI doesn't offer them
+ */
+export function createFlowPage(page: Page, { profileId, log, signal, policy }: FlowPageOptions): FlowPage {
+  const { settleMinMs, settleMaxMs } = policy || resolveGenerationPolicy()
+  const locate = (name: FlowSelectorName, values?: Record<string, string | number>) =>
+    page.locator(flowSelector(name, values))
+
+  // Throws SessionExpiredError when the profile has been signed out
+  async function assertSignedIn() {
+    const problem = await detectSessionProblem(page)
+    if (problem) {
+      console.log(
+        `[Playwright] Profile ${profileId} is signed out of Google (${problem === 'consent' ? 'consent screen' : 'sign-in page'}). ` +
+        `Sign it in again with POST /api/admin/profiles/${profileId}/relogin`
+      )
+      throw new SessionExpiredError(profileId, problem)
+    }
+  }
+
+  async function openNewProject() {
+    // Navigate to base Flow URL - this should redirect to a new project
+    await page.goto(FLOW_BASE_URL, { waitUntil: 'networkidle' })
+    // A signed-out profile gets bounced to the Google sign-in page
+    await assertSignedIn()
+    // Human-like wait: random 8-12 seconds by default instead of fixed 20s
+    await humanDelay(settleMinMs, settleMaxMs, signal)
+    signal?.throwIfAborted()
+    await humanIdleMovement(page)
+
+    // Check if we need to create a new project manually
+    const currentUrl = page.url()
+    log(`Current URL: ${currentUrl}`)
+
+    if (!currentUrl.includes('/project/')) {
+      // On the tool page but not in a project - look for "New project" button
+      log('Looking for New Project button...')
+      const newProjectBtn = locate('newProjectButton').first()
+      if (await isShown(newProjectBtn, 2000)) {
+        await humanClick(page, newProjectBtn)
+        await humanDelay(1500, 2500)
+      }
+    } else {
+      // Already on a project - start fresh from the menu, or a direct "+" button
+      log('Already on a project page, creating new project...')
+      try {
+        const menuBtn = locate('projectMenuButton').first()
+        if (await isShown(menuBtn, 2000)) {
+          await humanClick(page, menuBtn)
+          await humanDelay(300, 600)
+
+          const newOption = locate('newProjectMenuItem').first()
+          if (await isShown(newOption, 2000)) {
+            await humanClick(page, newOption)
+            await humanDelay(1500, 2500)
+          } else {
+            await page.keyboard.press('Escape')
+          }
+        }
+
+        const directNewBtn = locate('addProjectButton').first()
+        if (await isShown(directNewBtn, 2000)) {
+          await humanClick(page, directNewBtn)
+          await humanDelay(1500, 2500)
+        }
+      } catch {
+        log('Could not find new project option, will use current project')
+      }
+    }
+
+    // Wait for project page to be ready
+    try {
+      await page.waitForURL(PROJECT_URL_PATTERN, { timeout: 15000 })
+    } catch {
+      // If no redirect, try direct navigation again
+      log('Retrying navigation to create new project...')
+      await page.goto(FLOW_BASE_URL + '?new=' + Date.now(), { waitUntil: 'networkidle' })
+      try {
+        await page.waitForURL(PROJECT_URL_PATTERN, { timeout: 30000 })
+      } catch (error) {
+        // A session that expired mid-way shows up here as a timeout
+        await assertSignedIn()
+        throw error
+      }
+    }
+
+    return page.url()
+  }
+
+  // Open a project that already exists, e.g. to extend one of its clips
+  // Throws NotFoundError when Flow doesn't show the project to this account
+  async function openProject(projectUrl: string) {
+    await page.goto(projectUrl, { waitUntil: 'networkidle' })
+    await assertSignedIn()
+    await humanDelay(settleMinMs, settleMaxMs, signal)
+    signal?.throwIfAborted()
+    await humanIdleMovement(page)
+
+    // Flow sends unknown projects, and ones owned by another account, back to the tool page
+    if (!PROJECT_URL_PATTERN.test(page.url())) {
+      throw new NotFoundError(`Flow project ${projectUrl} is not available to this account`)
+    }
+    log(`Opened project ${page.url()}`)
+    return page.url()
+  }
+
+  // Name the open project through its title field - optional, returns false when there is none
+  async function renameProject(name: string) {
+    const title = locate('projectTitle').first()
+    if (!(await isShown(title, 2000))) return false
+
+    await title.click()
+    await humanDelay(200, 400)
+    await title.fill('')
+    await humanType(page, title, name)
+    await page.keyboard.press('Enter')
+    await humanDelay(500, 900)
+    log(`Named project "${name}"`)
+    return true
+  }
+
+  // Read the project cards on the landing page, scrolling until no more load in
+  async function listProjects() {
+    await page.goto(FLOW_BASE_URL, { waitUntil: 'networkidle' })
+    await assertSignedIn()
+    await humanDelay(settleMinMs, settleMaxMs, signal)
+    signal?.throwIfAborted()
+
+    // Layouts that drop straight into a project have no list to read
+    if (PROJECT_URL_PATTERN.test(page.url())) {
+      throw new ElementNotFoundError('project list', 'navigating')
+    }
+
+    let shown = -1
+    for (let scrolls = 0; scrolls < 10; scrolls++) {
+      const count = await locate('projectCard').count()
+      if (count === shown) break
+      shown = count
+      await page.mouse.wheel(0, 2000)
+      await humanDelay(800, 1500, signal)
+    }
+
+    const cards = await locate('projectCard').evaluateAll(links => links.map(link => ({
+      url: (link as HTMLAnchorElement).href,
+      text: (link as HTMLElement).innerText,
+    })))
+    const projects = new Map<string, FlowProjectSummary>()
+    for (const { url, text } of cards) {
+      if (!isFlowProjectUrl(url)) continue
+      const id = projectIdFromUrl(url)
+      const name = firstLine(text)
+      // A card can link its thumbnail and its title separately
+      const known = projects.get(id)
+      if (!known) projects.set(id, { id, url: flowProjectUrl(id), name: name || undefined })
+      else if (!known.name && name) known.name = name
+    }
+    log(`Found ${projects.size} project(s)`)
+    return Array.from(projects.values())
+  }
+
+  // Wait for the prompt box, which is the last thing the project page renders
+  async function waitUntilReady() {
+    try {
+      await locate('promptInput').first().waitFor({ timeout: 30000 })
+    } catch (error) {
+      await assertSignedIn()
+      throw new ElementNotFoundError('prompt box', 'navigating', error)
+    }
+  }
+
+  async function selectMode(mode: GenerationMode) {
+    // Text to Video is what a new project starts in
+    if (mode === 'text-to-video') return true
+
+    // Mode dropdown on the left side of the prompt bar
+    const modeDropdown = locate('modeDropdown').first()
+    if (!(await isShown(modeDropdown, 3000))) return false
+    await humanClick(page, modeDropdown)
+    await humanDelay(400, 700)
+
+    const modeOption = locate(MODE_OPTIONS[mode]).first()
+    if (!(await isShown(modeOption, 2000))) {
+      await page.keyboard.press('Escape')
+      return false
+    }
+    await humanClick(page, modeOption)
+    await humanDelay(800, 1200)
+    return true
+  }
+
+  // Open the settings panel (tune icon), run fn, and close the panel again
+  // Resolves to false without running fn when there is no settings button
+  async function withSettingsPanel<T>(fn: () => Promise<T>): Promise<T | false> {
+    const settingsBtn = locate('settingsButton').first()
+    if (!(await isShown(settingsBtn, 2000))) {
+      log('Settings button not visible')
+      return false
+    }
+    await humanClick(page, settingsBtn)
+    await humanDelay(500, 900)
+
+    try {
+      return await fn()
+    } finally {
+      await page.keyboard.press('Escape').catch(() => undefined)
+      await humanDelay(200, 400)
+    }
+  }
+
+  // Pick an option from one of the settings dropdowns; Escape closes the list when the option is missing
+  async function chooseSetting(dropdownName: FlowSelectorName, option: Locator, label: string) {
+    const dropdown = locate(dropdownName).first()
+    if (!(await isShown(dropdown, 2000))) {
+      log(`${label} dropdown not found`)
+      return false
+    }
+    await humanClick(page, dropdown)
+    await humanDelay(300, 500)
+
+    if (!(await isShown(option))) {
+      await page.keyboard.press('Escape')
+      await humanDelay(150, 300)
+      return false
+    }
+    await humanClick(page, option)
+    await humanDelay(300, 500)
+    return true
+  }
+
+  async function setAspectRatio(aspectRatio: AspectRatio) {
+    const ratio = ASPECT_RATIO_TEXT[aspectRatio]
+    return withSettingsPanel(async () => {
+      const set = await chooseSetting('aspectRatioDropdown', locate('aspectRatioOption', { ratio }).first(), 'Aspect Ratio')
+      log(set ? `Aspect ratio set to ${aspectRatio} (${ratio})` : `Could not set aspect ratio to ${ratio}`)
+      return set
+    })
+  }
+
+  async function setOutputsCount(count: number) {
+    return withSettingsPanel(async () => {
+      const set = await chooseSetting('outputsDropdown', locate('outputsOption', { count }).first(), 'Outputs per prompt')
+      log(set ? `Outputs per prompt set to ${count}` : `Could not find option for ${count} outputs`)
+      return set
+    })
+  }
+
+  // Escape on a dropdown's list can close the whole panel with it - reopen it if so
+  async function reopenSettingsPanel() {
+    if (await isShown(locate('settingsDropdown').first())) return
+    await humanClick(page, locate('settingsButton').first())
+    await humanDelay(500, 900)
+  }
+
+  // Names of the options in the open dropdown list
+  async function readOpenOptions() {
+    return (await locate('settingOption').allInnerTexts()).map(firstLine).filter(Boolean)
+  }
+
+  // Pick a model by its name in the Model dropdown (case and spacing don't matter)
+  // Throws ElementNotFoundError when the panel has no Model dropdown
+  async function setModel(model: string): Promise<ModelChoice> {
+    const choice = await withSettingsPanel(async (): Promise<ModelChoice> => {
+      const dropdown = locate('modelDropdown').first()
+      if (!(await isShown(dropdown, 2000))) {
+        throw new ElementNotFoundError('Model dropdown', 'configuring')
+      }
+      await humanClick(page, dropdown)
+      await humanDelay(300, 500)
+
+      const available = await readOpenOptions()
+      const index = available.findIndex(name => normalizeOptionText(name) === normalizeOptionText(model))
+      if (index === -1) {
+        await page.keyboard.press('Escape')
+        await humanDelay(150, 300)
+        log(`Model "${model}" not offered (available: ${available.join(', ')})`)
+        return { selected: null, available }
+      }
+
+      await humanClick(page, locate('settingOption').nth(index))
+      await humanDelay(300, 500)
+      log(`Model set to ${available[index]}`)
+      return { selected: available[index], available }
+    })
+    if (choice === false) {
+      throw new ElementNotFoundError('settings button', 'configuring')
+    }
+    return choice
+  }
+
+  // Every dropdown in the settings panel with its current value and options
+  async function readSettings(): Promise<FlowSetting[]> {
+    const settings = await withSettingsPanel(async () => {
+      const names = new Map<string, string>()
+      for (const [name, selector] of Object.entries(NAMED_DROPDOWNS)) {
+        const dropdown = locate(selector).first()
+        if (await isShown(dropdown)) names.set(firstLine(await dropdown.innerText()), name)
+      }
+
+      const read: FlowSetting[] = []
+      const dropdowns = locate('settingsDropdown')
+      const count = await dropdowns.count()
+      for (let i = 0; i < count; i++) {
+        const dropdown = dropdowns.nth(i)
+        await reopenSettingsPanel()
+        if (!(await isShown(dropdown))) continue
+
+        // The button shows the label, then the selected option
+        const lines = (await dropdown.innerText()).split('\n').map(line => line.trim()).filter(Boolean)
+        const label = lines[0] || ''
+        await humanClick(page, dropdown)
+        await humanDelay(300, 500)
+        const options = await readOpenOptions()
+        await page.keyboard.press('Escape')
+        await humanDelay(200, 400)
+
+        read.push({ name: names.get(label) || label, label, value: lines.slice(1).join(' '), options })
+      }
+      return read
+    })
+    if (settings === false) {
+      throw new ElementNotFoundError('settings button', 'configuring')
+    }
+    return settings
+  }
+
+  // Match the crop modal's orientation to the aspect ratio - Crop and Save cuts to it, keeping the whole
+  // image only for frames frame-prep already brought to 16:9 / 9:16 (fit 'crop' or 'pad'); with the
+  // default fit 'none' this is where Flow crops, so a wrong orientation must stop the upload
+  async function setCropOrientation(target: string) {
+    const dropdown = locate('cropOrientationDropdown').first()
+    if (!(await isShown(dropdown, 2000))) return 'dropdown not found'
+
+    const isSet = async () => (await dropdown.innerText()).toLowerCase().includes(target.toLowerCase())
+    if (await isSet()) return `already set to ${target}`
+
+    await dropdown.click()
+    await sleep(500)
+
+    const option = locate('cropOrientationOption', { orientation: target }).first()
+    if (await isShown(option)) {
+      await option.click()
+      return `selected ${target}`
+    }
+
+    // Last resort: use keyboard, then check it landed on the right option
+    await page.keyboard.press('ArrowUp')
+    await sleep(200)
+    await page.keyboard.press('Enter')
+    await sleep(300)
+    if (!(await isSet())) {
+      throw new ElementNotFoundError(`${target} crop orientation option`, 'uploading-frames')
+    }
+    return 'used keyboard navigation'
+  }
+
+  async function uploadFrame(filePath: string, frameName: string, aspectRatio: AspectRatio) {
+    // After the first upload its slot no longer has an Add button, so the next
+    // free slot is always the first Add button left (ingredients share one Add button)
+    const addButtons = locate('frameAddButton')
+    const slots = await addButtons.count()
+    if (slots === 0) {
+      log(`No Add button found for ${frameName}`)
+      return false
+    }
+    await addButtons.first().click()
+    await sleep(1000)
+    log(`Clicked Add button for ${frameName} (1 of ${slots})`)
+
+    // The Asset Library's file input is hidden but can be set directly
+    await locate('fileInput').first().setInputFiles(filePath)
+    log(`File selected for ${frameName}`)
+    await sleep(1500)
+
+    // A "Crop your ingredient" modal appears after file selection
+    const targetOrientation = aspectRatio === 'portrait' ? 'Portrait' : 'Landscape'
+    log(`Setting crop orientation to ${targetOrientation}...`)
+    // Wait for the crop modal to fully appear
+    await sleep(2000)
+    log(`Crop orientation: ${await setCropOrientation(targetOrientation)}`)
+    await sleep(500)
+
+    const cropBtn = locate('cropAndSaveButton').first()
+    if (!(await isShown(cropBtn, 5000))) {
+      // Maybe the file was already in the library
+      log(`Crop modal not found for ${frameName}, trying direct selection...`)
+      await page.keyboard.press('Escape')
+      await sleep(300)
+      return true
+    }
+    await cropBtn.click()
+    log(`Clicked Crop and Save for ${frameName}`)
+    await sleep(2000)
+
+    // Back in the Asset Library, the new upload is always the first asset
+    const assetImage = locate('uploadedAsset').first()
+    if (await isShown(assetImage, 3000)) {
+      await assetImage.click()
+      log(`Selected ${frameName} from library (newest upload)`)
+    } else {
+      // Fallback: the grid is newest first, after the Upload card
+      const imageButtons = await locate('assetGridButton').all()
+      if (imageButtons.length === 0) {
+        log(`No image buttons found for ${frameName}`)
+        return true
+      }
+      await imageButtons[Math.min(1, imageButtons.length - 1)].click()
+      log(`Selected ${frameName} (grid position ${imageButtons.length > 1 ? 1 : 0})`)
+    }
+
+    // Wait for modal to close
+    await sleep(1000)
+    return true
+  }
+
+  async function enterPrompt(prompt: string) {
+    const textarea = locate('promptInput').first()
+
+    // Human scroll and idle before typing
+    await humanScroll(page)
+    await humanDelay(500, 1000)
+
+    // Clear and type using human-like function
+    await textarea.click()
+    await humanDelay(200, 400)
+    await textarea.fill('')
+    await humanDelay(300, 600)
+    await humanType(page, textarea, prompt)
+
+    // Short natural pause before clicking submit
+    await humanIdleMovement(page)
+    await humanDelay(800, 1500)
+  }
+
+  async function submit() {
+    const createBtn = locate('createButton').first()
+    if (!(await isShown(createBtn, 5000))) {
+      throw new ElementNotFoundError('Create button', 'entering-prompt')
+    }
+    await humanClick(page, createBtn)
+  }
+
+  async function readTiles(): Promise<FlowTiles> {
+    const videoUrls = await locate('video').evaluateAll((videos, marker) => {
+      const urls = videos
+        .map(video => (video as HTMLVideoElement).src || (video as HTMLVideoElement).currentSrc)
+        .filter(src => src && src.includes(marker))
+      return Array.from(new Set(urls))
+    }, VIDEO_URL_MARKER)
+
+    // The tile is the nearest ancestor holding its menu button, and carries the reason Flow gives
+    const failedTiles = await locate('failedTile').evaluateAll(labels => labels.map(label => {
+      let tile: HTMLElement | null = label.parentElement
+      for (let i = 0; i < 10 && tile; i++) {
+        if (tile.querySelector('button')) break
+        tile = tile.parentElement
+      }
+      return (tile || label as HTMLElement).innerText || ''
+    }))
+
+    const pending = await locate('pendingTile').count()
+
+    const notices = (await locate('notice').allInnerTexts())
+      .map(text => text.trim())
+      .filter(Boolean)
+
+    return { videoUrls, failedTiles, pending, notices }
+  }
+
+  // Regenerate the failed tiles at these indexes (as read by readTiles) through each tile's menu
+  async function retryTiles(indexes: number[]) {
+    const labels = locate('failedTile')
+    let retriedCount = 0
+
+    // Last first, so a retried tile leaving the list doesn't shift the ones still to do
+    for (const index of [...indexes].sort((a, b) => b - a)) {
+      const label = labels.nth(index)
+      if (!(await isShown(label, 0))) continue
+
+      const tile = label.locator('xpath=ancestor::*[.//button][1]')
+      const menuBtn = tile.locator(flowSelector('tileMenuButton')).first()
+      if (!(await isShown(menuBtn, 0))) continue
+
+      await menuBtn.click()
+      await sleep(500)
+
+      const retryOption = locate('regenerateMenuItem').first()
+      if (await isShown(retryOption)) {
+        await retryOption.click()
+        retriedCount++
+        await sleep(500)
+      } else {
+        // Close menu if no retry option found
+        await page.keyboard.press('Escape')
+        await sleep(200)
+      }
+    }
+
+    return retriedCount
+  }
+
+  // Source of every element the selector matches, in page order - '' for ones that aren't clips
+  async function videoSources(name: FlowSelectorName) {
+    return locate(name).evaluateAll((videos, marker) => videos
+      .map(video => (video as HTMLVideoElement).src || (video as HTMLVideoElement).currentSrc)
+      .map(src => src && src.includes(marker) ? src : ''), VIDEO_URL_MARKER)
+  }
+
+  // Clip URLs on the scene timeline, in scene order
+  async function readScene() {
+    return (await videoSources('sceneClip')).filter(Boolean)
+  }
+
+  // Every finished clip on the page with what its tile says about it, one entry per clip
+  // Videos are found as readTiles finds them; the tile is the nearest ancestor holding a button
+  async function readClips() {
+    const sources = await videoSources('video')
+    const clips = new Map<string, FlowClip>()
+
+    for (const [index, videoUrl] of sources.entries()) {
+      if (!videoUrl) continue
+      const tile = locate('video').nth(index).locator('xpath=ancestor::*[.//button][1]')
+      const promptText = tile.locator(flowSelector('clipPrompt')).first()
+      const prompt = (await promptText.count()) > 0 ? (await promptText.innerText()).trim() : ''
+      const details = (await tile.locator(flowSelector('clipDetails')).allInnerTexts())
+        .flatMap(text => text.split(/[·•|\n]/))
+        .map(text => text.trim())
+        .filter(Boolean)
+      const clip: FlowClip = {
+        videoUrl,
+        prompt: prompt || undefined,
+        model: details.find(detail => /veo/i.test(detail)),
+        aspectRatio: (Object.keys(ASPECT_RATIO_TEXT) as AspectRatio[])
+          .find(ratio => details.includes(ASPECT_RATIO_TEXT[ratio])),
+        details,
+      }
+
+      // The same clip also shows on the scene timeline, without its prompt
+      const known = clips.get(clipKey(videoUrl))
+      if (!known || (!known.prompt && clip.prompt)) clips.set(clipKey(videoUrl), clip)
+    }
+
+    log(`Found ${clips.size} clip(s)`)
+    return Array.from(clips.values())
+  }
+
+  // Put the target clip on the scene timeline if it isn't there yet, select it there and
+  // choose Extend from the "+" menu - the prompt box then takes the continuation prompt
+  async function extendClip(target: ClipTarget) {
+    const { clipUrl: wantedUrl, clipIndex = 0 } = target
+    // Every video on the page, timeline included, so indexes line up with the video selector
+    const pageVideos = await videoSources('video')
+    const sceneClips = await readScene()
+    const clipUrl = wantedUrl
+      ? pageVideos.find(url => url && clipKey(url) === clipKey(wantedUrl))
+      : Array.from(new Set(pageVideos.filter(Boolean)))[clipIndex]
+    if (!clipUrl) {
+      throw new NotFoundError(wantedUrl
+        ? 'The clip to extend is no longer in its Flow project'
+        : `The Flow project has no clip at index ${clipIndex}`)
+    }
+    const sameClip = (url: string) => clipKey(url) === clipKey(clipUrl)
+
+    if (!sceneClips.some(sameClip)) {
+      log('Adding the clip to the scene...')
+      const tile = locate('video').nth(pageVideos.findIndex(sameClip)).locator('xpath=ancestor::*[.//button][1]')
+      await tile.hover()
+      await humanDelay(400, 700)
+      const addButton = tile.locator(flowSelector('addToSceneButton')).first()
+      if (!(await isShown(addButton, 2000))) {
+        throw new ElementNotFoundError('Add to scene button', 'configuring')
+      }
+      await humanClick(page, addButton)
+      await humanDelay(1500, 2500)
+    }
+
+    // Some layouts keep the timeline behind a Scene builder toggle
+    const sceneBuilderBtn = locate('sceneBuilderButton').first()
+    if (!(await isShown(locate('sceneClip').first())) && await isShown(sceneBuilderBtn)) {
+      await humanClick(page, sceneBuilderBtn)
+      await humanDelay(1000, 1800)
+    }
+
+    const sceneIndex = (await readScene()).findIndex(sameClip)
+    if (sceneIndex === -1) {
+      throw new ElementNotFoundError('clip on the scene timeline', 'configuring')
+    }
+    await humanClick(page, locate('sceneClip').nth(sceneIndex))
+    await humanDelay(500, 900)
+
+    const addButton = locate('sceneAddButton').last()
+    if (!(await isShown(addButton, 2000))) {
+      throw new ElementNotFoundError('scene "+" button', 'configuring')
+    }
+    await humanClick(page, addButton)
+    await humanDelay(400, 700)
+
+    const extendOption = locate('extendMenuItem').first()
+    if (!(await isShown(extendOption, 2000))) {
+      await page.keyboard.press('Escape')
+      throw new ElementNotFoundError('Extend option', 'configuring')
+    }
+    await humanClick(page, extendOption)
+    await humanDelay(800, 1200)
+    log(`Extending clip ${sceneIndex + 1} of the scene`)
+    return clipUrl
+  }
+
+  // Count matches for each selector, opening the menus their options live in
+  // Expects a ready project page; clicks nothing that starts a generation
+  async function checkSelectors(): Promise<SelectorCheck[]> {
+    const counts = new Map<FlowSelectorName, number>()
+    const count = async (...names: FlowSelectorName[]) => {
+      for (const name of names) {
+        counts.set(name, await page.locator(flowSelector(name, CHECK_VALUES)).count())
+      }
+    }
+    const inMenu = async (trigger: FlowSelectorName, ...names: FlowSelectorName[]) => {
+      const button = locate(trigger).first()
+      if (!(await isShown(button))) return
+      await humanClick(page, button)
+      await humanDelay(400, 700)
+      await count(...names)
+      await page.keyboard.press('Escape')
+      await humanDelay(300, 500)
+    }
+
+    const names = Object.keys(SELECTOR_CONTEXTS) as FlowSelectorName[]
+    await count(...names.filter(name => ['project', 'optional'].includes(SELECTOR_CONTEXTS[name])))
+
+    await inMenu('projectMenuButton', 'newProjectMenuItem')
+    await inMenu('modeDropdown', 'framesToVideoOption', 'ingredientsToVideoOption')
+
+    await withSettingsPanel(async () => {
+      await count('aspectRatioDropdown', 'outputsDropdown', 'modelDropdown', 'settingsDropdown')
+      await inMenu('aspectRatioDropdown', 'aspectRatioOption')
+      // Escape may have closed the whole panel along with the list
+      await reopenSettingsPanel()
+      await inMenu('outputsDropdown', 'outputsOption')
+      await reopenSettingsPanel()
+      await inMenu('modelDropdown', 'settingOption')
+      return true
+    })
+
+    const { selectors } = getFlowSelectors()
+    return names.map(name => {
+      const context = SELECTOR_CONTEXTS[name]
+      if (context === 'upload' || context === 'generation') {
+        return { name, selector: selectors[name], context, status: 'skipped' }
+      }
+      const matches = counts.get(name) || 0
+      const status: SelectorCheckStatus = matches > 0 ? 'found' : context === 'optional' ? 'not-shown' : 'missing'
+      return { name, selector: selectors[name], context, status, matches }
+    })
+  }
+
+  return {
+    page,
+    openNewProject,
+    openProject,
+    renameProject,
+    listProjects,
+    waitUntilReady,
+    selectMode,
+    setAspectRatio,
+    setOutputsCount,
+    setModel,
+    readSettings,
+    uploadFrame,
+    enterPrompt,
+    submit,
+    readTiles,
+    retryTiles,
+    extendClip,
+    readScene,
+    readClips,
+    assertSignedIn,
+    checkSelectors,
+  }
+}
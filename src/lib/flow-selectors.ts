@@ -0,0 +1,199 @@
+// src/lib/flow-selectors.ts
+// Selector map for the Flow UI - every selector the automation uses, versioned and
+// overridable from a JSON file so a UI change can be patched without a redeploy
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// Configuration from environment variables
+const FLOW_SELECTORS_FILE = process.env.FLOW_SELECTORS_FILE || path.join(os.homedir(), '.veo-flow-selectors.json')
+
+// Bump when a default below changes
+export const DEFAULT_SELECTORS_VERSION = '8'
+
+// Playwright selectors - CSS plus :has-text(), :text-is(), :text-matches() and :has()
+// {placeholders} are filled in when the selector is used
+export const DEFAULT_FLOW_SELECTORS = {
+  // Flow landing page
+  signInButton: 'button:text-matches("^sign in$", "i"), a:text-matches("^sign in$", "i")',
+  newProjectButton: 'button:text-matches("new.*(project|video)|create|start", "i"), a:text-matches("new.*(project|video)|create|start", "i")',
+  // The account's projects, listed on the landing page
+  projectCard: 'a[href*="/project/"]',
+
+  // Project page
+  projectMenuButton: 'button:has(i:text("more_vert")), button:has(i:text("menu"))',
+  newProjectMenuItem: '[role="menuitem"]:text-matches("new.*project", "i"), li:text-matches("new.*project", "i"), button:text-matches("new.*project", "i")',
+  addProjectButton: 'button:has(i:text("add"))',
+  projectTitle: 'input[aria-label*="project name" i], input[aria-label*="project title" i]',
+  promptInput: 'textarea#PINHOLE_TEXT_AREA_ELEMENT_ID',
+  createButton: 'button:has(i:text("arrow_forward"))',
+
+  // Mode dropdown on the left of the prompt bar
+  modeDropdown: 'button:has-text("Text to Video")',
+  framesToVideoOption: '[role="option"]:has-text("Frames to Video"), li:has-text("Frames to Video")',
+  ingredientsToVideoOption: '[role="option"]:has-text("Ingredients to Video"), li:has-text("Ingredients to Video")',
+
+  // Settings panel - {ratio} is 16:9 or 9:16, {count} the outputs per prompt
+  settingsButton: 'button:has(i:text("tune"))',
+  aspectRatioDropdown: 'button[role="combobox"]:has-text("Aspect Ratio")',
+  aspectRatioOption: '[role="option"]:has-text("{ratio}")',
+  outputsDropdown: 'button[role="combobox"]:has-text("Outputs per prompt")',
+  outputsOption: '[role="option"]:text-matches("^{count}$")',
+  modelDropdown: 'button[role="combobox"]:has-text("Model")',
+  // Any dropdown in the panel and any option of an open one, for reading what the panel offers
+  settingsDropdown: 'button[role="combobox"]',
+  settingOption: '[role="option"]:visible',
+
+  // Frame and ingredient slots, asset library and crop modal - {orientation} is Landscape or Portrait
+  frameAddButton: 'button:has-text("add")',
+  fileInput: 'input[type="file"]',
+  cropOrientationDropdown: 'button[role="combobox"]:has-text("Landscape"), button[role="combobox"]:has-text("Portrait")',
+  cropOrientationOption: '[role="option"]:text-is("{orientation}"), [role="menuitem"]:text-is("{orientation}"), li:text-is("{orientation}")',
+  cropAndSaveButton: 'button:has-text("Crop and Save")',
+  uploadedAsset: 'button[aria-label="A media asset previously uploaded or selected by you"]',
+  assetGridButton: '[role="dialog"] button:has(img)',
+
+  // Output tiles
+  video: 'video',
+  failedTile: 'text="Failed Generation"',
+  // Progress percentage on a tile that is still rendering
+  pendingTile: 'text=/^\\s*\\d{1,3}\\s*%\\s*$/',
+  tileMenuButton: 'button:has-text("more_vert"), button[aria-label*="more" i], button[aria-label*="menu" i]',
+  regenerateMenuItem: '[role="menuitem"]:text-matches("regenerate|retry|try again", "i"), [role="option"]:text-matches("regenerate|retry|try again", "i"), li:text-matches("regenerate|retry|try again", "i")',
+  // Alert toasts and banners - generic status and live regions also carry unrelated messages
+  notice: '[role="alert"]',
+  // Inside a finished clip's tile: the prompt it was made from, and the model / aspect ratio chips
+  clipPrompt: '[class*="prompt" i]',
+  clipDetails: '[class*="detail" i], [class*="chip" i]',
+
+  // Scene builder - a clip tile's "Add to scene" button, the timeline, and the "+" menu after a clip
+  addToSceneButton: 'button:has-text("Add to scene")',
+  sceneBuilderButton: 'button:has-text("Scenebuilder"), button:has-text("Scene builder")',
+  sceneClip: '[aria-label*="timeline" i] video',
+  sceneAddButton: '[aria-label*="timeline" i] button:has(i:text("add"))',
+  extendMenuItem: '[role="menuitem"]:has-text("Extend"), li:has-text("Extend")',
+}
+
+export type FlowSelectorName = keyof typeof DEFAULT_FLOW_SELECTORS
+export type FlowSelectors = Record<FlowSelectorName, string>
+
+// Where each selector shows up, which decides how the self-check treats it:
+// the menus are opened to check their options; optional ones are only on some pages;
+// upload and generation ones need a real upload or generation, so they aren't checked
+export type SelectorContext =
+  | 'project'
+  | 'project-menu'
+  | 'mode-menu'
+  | 'settings'
+  | 'aspect-menu'
+  | 'outputs-menu'
+  | 'model-menu'
+  | 'optional'
+  | 'upload'
+  | 'generation'
+
+export const SELECTOR_CONTEXTS: Record<FlowSelectorName, SelectorContext> = {
+  signInButton: 'optional',
+  newProjectButton: 'optional',
+  projectCard: 'optional',
+  projectMenuButton: 'project',
+  newProjectMenuItem: 'project-menu',
+  addProjectButton: 'optional',
+  projectTitle: 'project',
+  promptInput: 'project',
+  createButton: 'project',
+  modeDropdown: 'project',
+  framesToVideoOption: 'mode-menu',
+  ingredientsToVideoOption: 'mode-menu',
+  settingsButton: 'project',
+  aspectRatioDropdown: 'settings',
+  aspectRatioOption: 'aspect-menu',
+  outputsDropdown: 'settings',
+  outputsOption: 'outputs-menu',
+  modelDropdown: 'settings',
+  settingsDropdown: 'settings',
+  settingOption: 'model-menu',
+  frameAddButton: 'upload',
+  fileInput: 'upload',
+  cropOrientationDropdown: 'upload',
+  cropOrientationOption: 'upload',
+  cropAndSaveButton: 'upload',
+  uploadedAsset: 'upload',
+  assetGridButton: 'upload',
+  video: 'generation',
+  failedTile: 'generation',
+  pendingTile: 'generation',
+  tileMenuButton: 'generation',
+  regenerateMenuItem: 'generation',
+  notice: 'generation',
+  clipPrompt: 'generation',
+  clipDetails: 'generation',
+  addToSceneButton: 'generation',
+  sceneBuilderButton: 'optional',
+  sceneClip: 'generation',
+  sceneAddButton: 'generation',
+  extendMenuItem: 'generation',
+}
+
+export type FlowSelectorMap = {
+  version: string
+  // Overrides file, when one was loaded
+  source?: string
+  overridden: FlowSelectorName[]
+  selectors: FlowSelectors
+}
+
+let current: FlowSelectorMap | null = null
+
+/**
+ * Load the selector map - the defaults, with any FLOW_SELECTORS_FILE overrides on top
+ * File format: { "version": "...", "selectors": { "createButton": "...", ... } }
+ * Throws on an invalid file, so a typo fails loudly instead of breaking every run
+ */
+export function loadFlowSelectors(): FlowSelectorMap {
+  if (!fs.existsSync(FLOW_SELECTORS_FILE)) {
+    current = { version: DEFAULT_SELECTORS_VERSION, overridden: [], selectors: { ...DEFAULT_FLOW_SELECTORS } }
+    return current
+  }
+
+  const config = JSON.parse(fs.readFileSync(FLOW_SELECTORS_FILE, 'utf8'))
+  const overrides = config.selectors
+
+  if (config.version !== undefined && typeof config.version !== 'string') {
+    throw new Error(`${FLOW_SELECTORS_FILE}: version must be a string`)
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error(`${FLOW_SELECTORS_FILE}: selectors must be an object`)
+  }
+  for (const [name, selector] of Object.entries(overrides)) {
+    if (!(name in DEFAULT_FLOW_SELECTORS)) {
+      throw new Error(`${FLOW_SELECTORS_FILE}: unknown selector "${name}"`)
+    }
+    if (typeof selector !== 'string' || !selector.trim()) {
+      throw new Error(`${FLOW_SELECTORS_FILE}: selector "${name}" must be a non-empty string`)
+    }
+  }
+
+  current = {
+    version: config.version || `${DEFAULT_SELECTORS_VERSION}+local`,
+    source: FLOW_SELECTORS_FILE,
+    overridden: Object.keys(overrides) as FlowSelectorName[],
+    selectors: { ...DEFAULT_FLOW_SELECTORS, ...overrides },
+  }
+  console.log(`[Selectors] Loaded ${current.overridden.length} override(s) from ${FLOW_SELECTORS_FILE} (version ${current.version})`)
+  return current
+}
+
+export function getFlowSelectors(): FlowSelectorMap {
+  return current || loadFlowSelectors()
+}
+
+/**
+ * Look up a selector, filling in its {placeholders}
+ */
+export function flowSelector(name: FlowSelectorName, values: Record<string, string | number> = {}): string {
+  return getFlowSelectors().selectors[name].replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  )
+}
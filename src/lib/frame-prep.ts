@@ -0,0 +1,113 @@
+// src/lib/frame-prep.ts
+// Frame preprocessing - decode, check dimensions and, with fit 'crop' or 'pad', bring frames to exactly
+// 16:9 or 9:16 so Flow's "Crop your ingredient" modal has nothing left to crop
+
+import sharp, { type Metadata } from 'sharp'
+import fs from 'fs'
+import { tempFramePath, type FrameFile } from './frames'
+import type { VideoGenerationOptions } from './playwright-veo'
+
+// Configuration from environment variables
+export const FRAME_MIN_DIMENSION = Number(process.env.FRAME_MIN_DIMENSION) || 256
+export const FRAME_MAX_DIMENSION = Number(process.env.FRAME_MAX_DIMENSION) || 8192
+// Prepared frames are scaled down to fit this box (long side), never up
+const FRAME_OUTPUT_LONG_SIDE = Number(process.env.FRAME_OUTPUT_LONG_SIDE) || 1920
+
+export const FRAME_FITS = ['crop', 'pad', 'none'] as const
+
+// crop: cut to the target ratio around the focal point
+// pad: letterbox the whole image onto a black canvas of the target ratio
+// none: keep the image as sent and leave cropping to Flow
+export type FrameFit = typeof FRAME_FITS[number]
+
+// Relative position (0-1 on each axis) to keep in view when cropping, default centre
+export type FocalPoint = {
+  x: number
+  y: number
+}
+
+export type FramePrepOptions = {
+  aspectRatio: NonNullable<VideoGenerationOptions['aspectRatio']>
+  fit?: FrameFit
+  focalPoint?: FocalPoint
+}
+
+const TARGET_RATIOS: Record<FramePrepOptions['aspectRatio'], number> = {
+  landscape: 16 / 9,
+  portrait: 9 / 16,
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Region of a width x height image with the target ratio, centred on the focal point as far as the edges allow
+ */
+export function cropRegion(width: number, height: number, ratio: number, focalPoint: FocalPoint = { x: 0.5, y: 0.5 }) {
+  if (width / height > ratio) {
+    const cropWidth = Math.min(width, Math.round(height * ratio))
+    const left = clamp(Math.round(focalPoint.x * width - cropWidth / 2), 0, width - cropWidth)
+    return { left, top: 0, width: cropWidth, height }
+  }
+  const cropHeight = Math.min(height, Math.round(width / ratio))
+  const top = clamp(Math.round(focalPoint.y * height - cropHeight / 2), 0, height - cropHeight)
+  return { left: 0, top, width, height: cropHeight }
+}
+
+/**
+ * Decode a frame, check its dimensions and re-encode it at the target aspect ratio
+ * Returns a new temp file and removes the original; with fit 'none' the original is returned untouched
+ * Throws with a client-safe message when the image can't be used
+ */
+export async function prepareFrame(file: FrameFile, options: FramePrepOptions): Promise<FrameFile> {
+  // Frames are only re-cut when the client asks - Flow's own crop step is the default
+  const fit = options.fit || 'none'
+
+  let metadata: Metadata
+  try {
+    metadata = await sharp(file.path).metadata()
+  } catch {
+    throw new Error('could not be decoded as an image')
+  }
+
+  // EXIF orientation decides which side is the width
+  const { width, height } = metadata.autoOrient
+  if (width < FRAME_MIN_DIMENSION || height < FRAME_MIN_DIMENSION) {
+    throw new Error(`is ${width}x${height}, smaller than the ${FRAME_MIN_DIMENSION}px minimum on each side`)
+  }
+  if (width > FRAME_MAX_DIMENSION || height > FRAME_MAX_DIMENSION) {
+    throw new Error(`is ${width}x${height}, larger than the ${FRAME_MAX_DIMENSION}px maximum on each side`)
+  }
+
+  if (fit === 'none') {
+    return file
+  }
+
+  const ratio = TARGET_RATIOS[options.aspectRatio]
+  const region = fit === 'crop'
+    ? cropRegion(width, height, ratio, options.focalPoint)
+    : width / height > ratio
+      ? { left: 0, top: 0, width, height: Math.round(width / ratio) }
+      : { left: 0, top: 0, width: Math.round(height * ratio), height }
+
+  // sharp applies one resize per pipeline, so scaling down and letterboxing happen together
+  const scale = Math.min(1, FRAME_OUTPUT_LONG_SIDE / Math.max(region.width, region.height))
+  const output = { width: Math.round(region.width * scale), height: Math.round(region.height * scale) }
+
+  let image = sharp(file.path).autoOrient()
+  if (fit === 'crop') {
+    image = image.extract(region)
+  }
+  image = image.resize({ ...output, fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 1 } })
+
+  // Keep transparency as PNG, everything else becomes JPEG
+  const mimeType = metadata.hasAlpha ? 'image/png' : 'image/jpeg'
+  const data = mimeType === 'image/png'
+    ? await image.png().toBuffer()
+    : await image.flatten({ background: '#000000' }).jpeg({ quality: 92 }).toBuffer()
+
+  const preparedPath = tempFramePath(mimeType)
+  await fs.promises.writeFile(preparedPath, data)
+  await fs.promises.unlink(file.path).catch(() => undefined)
+
+  return { path: preparedPath, mimeType, size: data.length }
+}
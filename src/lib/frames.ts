@@ -0,0 +1,137 @@
+// src/lib/frames.ts
+// Frame images on disk - every input form (data URL, multipart upload, remote URL) ends up as a temp file
+// that uploadFrame hands to the Flow file input
+
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { FRAME_MAX_BYTES, FRAME_MIME_TYPES, checkFrameBytes } from './validation'
+import { requestPublicUrl } from './outbound'
+import type { VideoGenerationOptions } from './playwright-veo'
+
+// Configuration from environment variables
+const FRAME_FETCH_TIMEOUT_MS = Number(process.env.FRAME_FETCH_TIMEOUT_MS) || 15000
+const FRAME_FETCH_MAX_REDIRECTS = 5
+
+export type FrameFile = {
+  path: string
+  mimeType: string
+  size: number
+}
+
+const extensionFor = (mimeType: string) =>
+  mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1]
+
+/**
+ * MIME type from a frame file's extension
+ */
+export function frameMimeType(framePath: string): string {
+  const ext = path.extname(framePath).slice(1).toLowerCase()
+  return ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' : `image/${ext}`
+}
+
+/**
+ * Temp file path in the same place uploadFrame has always used
+ */
+export function tempFramePath(mimeType: string): string {
+  return path.join(os.tmpdir(), `veo_frame_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.${extensionFor(mimeType)}`)
+}
+
+/**
+ * Check a buffer and write it to a new temp file
+ * Throws with a client-safe message when the bytes aren't an accepted image
+ */
+export async function writeFrameFile(data: Buffer, mimeType: string): Promise<FrameFile> {
+  const problem = checkFrameBytes(data, mimeType)
+  if (problem) {
+    throw new Error(problem)
+  }
+
+  const framePath = tempFramePath(mimeType)
+  await fs.promises.writeFile(framePath, data)
+  return { path: framePath, mimeType, size: data.length }
+}
+
+/**
+ * Decode a base64 data URL into a temp file
+ */
+export async function writeFrameFromDataUrl(dataUrl: string): Promise<FrameFile> {
+  const matches = dataUrl.match(/^data:(image\/\w+);base64,(.+)$/s)
+  if (!matches) {
+    throw new Error('is not a base64 image data URL')
+  }
+  return writeFrameFile(Buffer.from(matches[2], 'base64'), matches[1])
+}
+
+/**
+ * Fetch a remote image into a temp file, enforcing content type and size limits
+ * Only public addresses are fetched, redirects included, and an oversized body is abandoned early
+ */
+export async function fetchFrameFromUrl(url: string): Promise<FrameFile> {
+  const response = await requestPublicUrl(url, { timeoutMs: FRAME_FETCH_TIMEOUT_MS, maxRedirects: FRAME_FETCH_MAX_REDIRECTS })
+
+  if (response.status < 200 || response.status >= 300) {
+    response.discard()
+    throw new Error(`could not be fetched (HTTP ${response.status})`)
+  }
+
+  const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase()
+  if (!FRAME_MIME_TYPES.includes(mimeType)) {
+    response.discard()
+    throw new Error(`has content type "${mimeType || 'unknown'}", expected one of: ${FRAME_MIME_TYPES.join(', ')}`)
+  }
+
+  return writeFrameFile(await response.read(FRAME_MAX_BYTES), mimeType)
+}
+
+// One frame slot as it arrived in the request - at most one source is set
+export type FrameInput = {
+  dataUrl?: string
+  url?: string
+  upload?: { path: string; mimeType: string }
+}
+
+/**
+ * Turn whichever source a request used into a checked temp file
+ * Throws with a client-safe message describing what is wrong with the input
+ */
+export async function resolveFrameInput(input: FrameInput): Promise<FrameFile | undefined> {
+  if (input.upload) {
+    const data = await fs.promises.readFile(input.upload.path)
+    const problem = checkFrameBytes(data, input.upload.mimeType)
+    if (problem) {
+      throw new Error(problem)
+    }
+    return { path: input.upload.path, mimeType: input.upload.mimeType, size: data.length }
+  }
+  if (input.url) {
+    return fetchFrameFromUrl(input.url)
+  }
+  if (input.dataUrl) {
+    return writeFrameFromDataUrl(input.dataUrl)
+  }
+  return undefined
+}
+
+/**
+ * Every image file a run's options point at - frames and ingredients
+ */
+export function optionImagePaths(options?: VideoGenerationOptions): (string | undefined)[] {
+  if (!options) return []
+  return [options.startFramePath, options.endFramePath, ...(options.ingredients || []).map(ingredient => ingredient.imagePath)]
+}
+
+/**
+ * Delete temp frame files, ignoring ones that are already gone
+ */
+export async function removeFrameFiles(paths: (string | undefined)[]) {
+  for (const framePath of paths) {
+    if (!framePath) continue
+    try {
+      await fs.promises.unlink(framePath)
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// src/lib/generation-policy.ts
+// Timing and retry policy for generation runs - defaults from env or GENERATION_POLICY_FILE,
+// overridable per request within the bounds that file sets
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { ValidationIssue } from './validation'
+
+// Configuration from environment variables
+const GENERATION_POLICY_FILE = process.env.GENERATION_POLICY_FILE || path.join(os.homedir(), '.veo-generation-policy.json')
+
+export type GenerationPolicy = {
+  // Longest a run waits for its outputs after clicking Create
+  timeoutMs: number
+  // Time between checks of the output tiles
+  pollIntervalMs: number
+  // Regenerate rounds for failed outputs
+  maxRetries: number
+  // Checks with no new videos and nothing still rendering before returning what's there
+  stablePolls: number
+  // Random wait after opening Flow, before touching the page
+  settleMinMs: number
+  settleMaxMs: number
+}
+
+export type PolicyField = keyof GenerationPolicy
+
+export type PolicyBounds = Record<PolicyField, { min: number; max: number }>
+
+export const POLICY_FIELDS: PolicyField[] = ['timeoutMs', 'pollIntervalMs', 'maxRetries', 'stablePolls', 'settleMinMs', 'settleMaxMs']
+
+const DEFAULT_POLICY: GenerationPolicy = {
+  timeoutMs: Number(process.env.GENERATION_TIMEOUT_MS) || 5 * 60 * 1000,
+  pollIntervalMs: Number(process.env.GENERATION_POLL_INTERVAL_MS) || 8000,
+  maxRetries: process.env.GENERATION_MAX_RETRIES ? Number(process.env.GENERATION_MAX_RETRIES) : 2,
+  stablePolls: Number(process.env.GENERATION_STABLE_POLLS) || 3,
+  settleMinMs: Number(process.env.GENERATION_SETTLE_MIN_MS) || 8000,
+  settleMaxMs: Number(process.env.GENERATION_SETTLE_MAX_MS) || 12000,
+}
+
+// What a request may ask for unless the policy file says otherwise
+const DEFAULT_BOUNDS: PolicyBounds = {
+  timeoutMs: { min: 60 * 1000, max: 30 * 60 * 1000 },
+  pollIntervalMs: { min: 2000, max: 60 * 1000 },
+  maxRetries: { min: 0, max: 5 },
+  stablePolls: { min: 1, max: 20 },
+  settleMinMs: { min: 0, max: 60 * 1000 },
+  settleMaxMs: { min: 0, max: 60 * 1000 },
+}
+
+let defaults: GenerationPolicy | null = null
+let bounds: PolicyBounds = DEFAULT_BOUNDS
+
+const isWholeNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0
+
+/**
+ * Load the policy: env defaults, with GENERATION_POLICY_FILE on top
+ * File format: { "defaults": { "timeoutMs": 600000 }, "bounds": { "timeoutMs": { "min": 60000, "max": 900000 } } }
+ * Throws on an invalid file, including defaults outside their bounds
+ */
+export function loadGenerationPolicy() {
+  const loadedDefaults = { ...DEFAULT_POLICY }
+  const loadedBounds = { ...DEFAULT_BOUNDS }
+
+  if (fs.existsSync(GENERATION_POLICY_FILE)) {
+    const config = JSON.parse(fs.readFileSync(GENERATION_POLICY_FILE, 'utf8'))
+
+    for (const [name, value] of Object.entries(config.defaults || {})) {
+      if (!POLICY_FIELDS.includes(name as PolicyField)) {
+        throw new Error(`${GENERATION_POLICY_FILE}: unknown policy field "${name}"`)
+      }
+      if (!isWholeNumber(value)) {
+        throw new Error(`${GENERATION_POLICY_FILE}: defaults.${name} must be a non-negative integer`)
+      }
+      loadedDefaults[name as PolicyField] = value
+    }
+
+    for (const [name, range] of Object.entries(config.bounds || {})) {
+      if (!POLICY_FIELDS.includes(name as PolicyField)) {
+        throw new Error(`${GENERATION_POLICY_FILE}: unknown policy field "${name}"`)
+      }
+      const { min, max } = (range || {}) as { min?: unknown; max?: unknown }
+      if (!isWholeNumber(min) || !isWholeNumber(max) || min > max) {
+        throw new Error(`${GENERATION_POLICY_FILE}: bounds.${name} needs integer min and max with min <= max`)
+      }
+      loadedBounds[name as PolicyField] = { min, max }
+    }
+    console.log(`[Policy] Loaded generation policy from ${GENERATION_POLICY_FILE}`)
+  }
+
+  for (const name of POLICY_FIELDS) {
+    const { min, max } = loadedBounds[name]
+    if (!isWholeNumber(loadedDefaults[name])) {
+      throw new Error(`Default ${name} must be a non-negative integer`)
+    }
+    if (loadedDefaults[name] < min || loadedDefaults[name] > max) {
+      throw new Error(`Default ${name} of ${loadedDefaults[name]} is outside its bounds (${min}-${max})`)
+    }
+  }
+  if (loadedDefaults.settleMinMs > loadedDefaults.settleMaxMs) {
+    throw new Error('Default settleMinMs must not be larger than settleMaxMs')
+  }
+
+  defaults = loadedDefaults
+  bounds = loadedBounds
+}
+
+/**
+ * Defaults and the bounds requests may override them within
+ */
+export function getGenerationPolicy(): { defaults: GenerationPolicy; bounds: PolicyBounds } {
+  if (!defaults) loadGenerationPolicy()
+  return { defaults: defaults!, bounds }
+}
+
+/**
+ * Check per-request overrides against the bounds
+ * Field types are checked by the request schema; this only checks the ranges
+ */
+export function checkPolicyOverrides(overrides: Partial<Record<PolicyField, unknown>>): ValidationIssue[] {
+  const { defaults, bounds } = getGenerationPolicy()
+  const issues: ValidationIssue[] = []
+
+  for (const name of POLICY_FIELDS) {
+    const value = overrides[name]
+    if (typeof value !== 'number') continue
+    const { min, max } = bounds[name]
+    if (value < min || value > max) {
+      issues.push({ field: `policy.${name}`, message: `must be between ${min} and ${max}` })
+    }
+  }
+
+  const settleMin = typeof overrides.settleMinMs === 'number' ? overrides.settleMinMs : defaults.settleMinMs
+  const settleMax = typeof overrides.settleMaxMs === 'number' ? overrides.settleMaxMs : defaults.settleMaxMs
+  if (settleMin > settleMax) {
+    issues.push({ field: 'policy.settleMinMs', message: `must not be larger than settleMaxMs (${settleMax})` })
+  }
+
+  return issues
+}
+
+/**
+ * The policy for one run: defaults with the request's overrides applied
+ * Overrides are expected to have passed checkPolicyOverrides
+ */
+export function resolveGenerationPolicy(overrides: Partial<GenerationPolicy> = {}): GenerationPolicy {
+  return { ...getGenerationPolicy().defaults, ...overrides }
+}
@@ -0,0 +1,8 @@
+// src/lib/history-query.ts
+// Query handling shared by the history stores
+
+const DEFAULT_HISTORY_LIMIT = 20
+const MAX_HISTORY_LIMIT = 100
+
+export const normalizeLimit = (limit?: number) =>
+  Math.min(MAX_HISTORY_LIMIT, Math.max(1, limit || DEFAULT_HISTORY_LIMIT))
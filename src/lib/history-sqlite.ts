@@ -0,0 +1,93 @@
+// src/lib/history-sqlite.ts
+// Embedded SQLite history store - filterable columns are indexed, the full record is stored as JSON
+
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import path from 'path'
+import type { GenerationRecord, HistoryPage, HistoryQuery, HistoryStore } from './history'
+import { normalizeLimit } from './history-query'
+
+// Escape LIKE wildcards so prompt searches match literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`)
+
+export function createSqliteHistoryStore(dbPath: string): HistoryStore {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+
+  const db = new Database(dbPath)
+  db.pragma('journal_mode = WAL')
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS generations (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      record TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS generations_created_at ON generations (created_at);
+    CREATE INDEX IF NOT EXISTS generations_status ON generations (status);
+  `)
+
+  const upsert = db.prepare(`
+    INSERT INTO generations (id, status, prompt, created_at, record)
+    VALUES (@id, @status, @prompt, @createdAt, @record)
+    ON CONFLICT (id) DO UPDATE SET status = excluded.status, record = excluded.record
+  `)
+  const selectOne = db.prepare('SELECT record FROM generations WHERE id = ?')
+
+  const save = async (record: GenerationRecord) => {
+    upsert.run({
+      id: record.id,
+      status: record.status,
+      prompt: record.options.prompt,
+      createdAt: record.createdAt,
+      record: JSON.stringify(record),
+    })
+  }
+
+  const get = async (id: string) => {
+    const row = selectOne.get(id) as { record: string } | undefined
+    return row ? JSON.parse(row.record) as GenerationRecord : null
+  }
+
+  const query = async (query: HistoryQuery): Promise<HistoryPage> => {
+    const limit = normalizeLimit(query.limit)
+    const offset = Math.max(0, query.offset || 0)
+
+    const conditions: string[] = []
+    const params: Record<string, string | number> = {}
+
+    if (query.status) {
+      conditions.push('status = @status')
+      params.status = query.status
+    }
+    if (query.from) {
+      conditions.push('created_at >= @from')
+      params.from = query.from
+    }
+    if (query.to) {
+      conditions.push('created_at <= @to')
+      params.to = query.to
+    }
+    if (query.prompt) {
+      // LIKE is case-insensitive for ASCII in SQLite
+      conditions.push(`prompt LIKE @prompt ESCAPE '\\'`)
+      params.prompt = `%${escapeLike(query.prompt)}%`
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM generations ${where}`).get(params) as { total: number }
+    const rows = db.prepare(
+      `SELECT record FROM generations ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`
+    ).all({ ...params, limit, offset }) as { record: string }[]
+
+    return {
+      records: rows.map(row => JSON.parse(row.record) as GenerationRecord),
+      total,
+      limit,
+      offset,
+    }
+  }
+
+  return { save, get, query }
+}
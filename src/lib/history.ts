@@ -0,0 +1,178 @@
+// src/lib/history.ts
+// Persistent generation history - every job is recorded so results survive restarts
+// Backends implement HistoryStore; pick one with HISTORY_STORE=file|sqlite
+
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { JobState, JobProgressEntry, JobVideo, JobOwner } from './jobs'
+import type { VideoGenerationOptions, ExtendTarget, IngredientResult } from './playwright-veo'
+import { normalizeLimit } from './history-query'
+import { frameMimeType } from './frames'
+
+// Configuration from environment variables
+const HISTORY_STORE = process.env.HISTORY_STORE || 'file'
+const HISTORY_DIR = process.env.HISTORY_DIR || path.join(os.homedir(), '.veo-history')
+
+// Frames are written to disk once and referenced by hash instead of keeping base64 in records
+export type FrameReference = {
+  sha256: string
+  mimeType: string
+  size: number
+}
+
+export type GenerationRecord = {
+  id: string
+  status: JobState
+  options: {
+    prompt: string
+    aspectRatio?: VideoGenerationOptions['aspectRatio']
+    mode?: VideoGenerationOptions['mode']
+    outputsCount?: VideoGenerationOptions['outputsCount']
+    // Model the request asked for
+    model?: string
+    ingredientCount?: number
+    // Name asked for a new project
+    projectName?: string
+    extend?: ExtendTarget
+    startFrame?: FrameReference
+    endFrame?: FrameReference
+  }
+  submittedBy?: JobOwner
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  progress: JobProgressEntry[]
+  projectUrl?: string
+  // Browser profile the job ran on - extending its clips needs the same account
+  profileId?: string
+  // Model Flow was set to
+  model?: string
+  // Which ingredients Flow accepted, for ingredients-to-video
+  ingredients?: IngredientResult[]
+  videoUrls?: string[]
+  videos?: JobVideo[]
+  failedCount?: number
+  error?: string
+  // Set on clips recorded from an existing Flow project instead of generated here
+  importedAt?: string
+}
+
+export type HistoryQuery = {
+  status?: JobState
+  // ISO timestamps, compared against createdAt (inclusive)
+  from?: string
+  to?: string
+  // Case-insensitive substring match on the prompt
+  prompt?: string
+  limit?: number
+  offset?: number
+}
+
+export type HistoryPage = {
+  records: GenerationRecord[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export type HistoryStore = {
+  // Insert or replace by record id
+  save: (record: GenerationRecord) => Promise<void>
+  get: (id: string) => Promise<GenerationRecord | null>
+  // Newest first
+  query: (query: HistoryQuery) => Promise<HistoryPage>
+}
+
+/**
+ * Check a record against every filter except pagination
+ */
+function matchesHistoryQuery(record: GenerationRecord, query: HistoryQuery): boolean {
+  if (query.status && record.status !== query.status) return false
+  if (query.from && record.createdAt < query.from) return false
+  if (query.to && record.createdAt > query.to) return false
+  if (query.prompt && !record.options.prompt.toLowerCase().includes(query.prompt.toLowerCase())) return false
+  return true
+}
+
+/**
+ * JSON Lines file store - one record per line, later lines replace earlier ones with the same id
+ * Everything is kept in memory; the file is compacted on startup
+ */
+export function createFileHistoryStore(filePath: string): HistoryStore {
+  const records = new Map<string, GenerationRecord>()
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean)
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as GenerationRecord
+        records.set(record.id, record)
+      } catch {
+        console.warn('[History] Skipping unreadable line in history file')
+      }
+    }
+
+    // Drop superseded lines so the file doesn't grow with every status update
+    if (lines.length > records.size) {
+      const compacted = Array.from(records.values()).map(record => JSON.stringify(record) + '\n').join('')
+      fs.writeFileSync(filePath, compacted)
+    }
+  }
+
+  // Appends are chained so lines land in the order saves were made
+  let writes: Promise<void> = Promise.resolve()
+
+  const save = async (record: GenerationRecord) => {
+    records.set(record.id, record)
+    const line = JSON.stringify(record) + '\n'
+    writes = writes.catch(() => undefined).then(() => fs.promises.appendFile(filePath, line))
+    await writes
+  }
+
+  const get = async (id: string) => records.get(id) || null
+
+  const query = async (query: HistoryQuery): Promise<HistoryPage> => {
+    const limit = normalizeLimit(query.limit)
+    const offset = Math.max(0, query.offset || 0)
+
+    const matching = Array.from(records.values())
+      .filter(record => matchesHistoryQuery(record, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    return {
+      records: matching.slice(offset, offset + limit),
+      total: matching.length,
+      limit,
+      offset,
+    }
+  }
+
+  return { save, get, query }
+}
+
+/**
+ * Copy a frame file into the frames directory and return its reference
+ */
+export async function saveFrameReference(sourcePath: string): Promise<FrameReference> {
+  const data = await fs.promises.readFile(sourcePath)
+  const sha256 = crypto.createHash('sha256').update(data).digest('hex')
+  const framesDir = path.join(HISTORY_DIR, 'frames')
+
+  await fs.promises.mkdir(framesDir, { recursive: true })
+  const framePath = path.join(framesDir, sha256)
+  if (!fs.existsSync(framePath)) {
+    await fs.promises.writeFile(framePath, data)
+  }
+
+  return { sha256, mimeType: frameMimeType(sourcePath), size: data.length }
+}
+
+// better-sqlite3 is a native module - only load it when the sqlite store is picked
+export const historyStore: HistoryStore = HISTORY_STORE === 'sqlite'
+  ? (require('./history-sqlite') as typeof import('./history-sqlite'))
+    .createSqliteHistoryStore(path.join(HISTORY_DIR, 'history.db'))
+  : createFileHistoryStore(path.join(HISTORY_DIR, 'history.jsonl'))
@@ -0,0 +1,95 @@
+// src/lib/human.ts
+// Human-like timing and input for the Flow automation - randomized delays, mouse paths and typing
+
+import type { Page, Locator } from 'playwright'
+
+// Helper for delay - resolves early when the signal aborts, callers check the signal afterwards
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', done)
+    resolve()
+  }
+  const timer = setTimeout(done, ms)
+  signal?.addEventListener('abort', done, { once: true })
+})
+
+// ============ Human-Like Behavior Helpers ============
+
+// Random delay dengan variasi natural
+export const humanDelay = (min = 100, max = 300, signal?: AbortSignal) =>
+  sleep(Math.floor(Math.random() * (max - min + 1)) + min, signal)
+
+// Random integer helper
+const randomInt = (min: number, max: number) =>
+  Math.floor(Math.random() * (max - min + 1)) + min
+
+// Simulasi gerakan mouse ke elemen dengan curve natural
+async function humanMouseMove(page: Page, x: number, y: number) {
+  // Add slight randomness to target position
+  const targetX = x + (Math.random() - 0.5) * 10
+  const targetY = y + (Math.random() - 0.5) * 10
+  // Move with natural steps (not instant)
+  await page.mouse.move(targetX, targetY, { steps: randomInt(5, 15) })
+}
+
+// Klik element dengan mouse movement natural
+export async function humanClick(page: Page, element: Locator) {
+  const box = await element.boundingBox()
+  if (box) {
+    // Move mouse to element with slight offset
+    const x = box.x + box.width / 2 + (Math.random() - 0.5) * (box.width * 0.3)
+    const y = box.y + box.height / 2 + (Math.random() - 0.5) * (box.height * 0.3)
+    await humanMouseMove(page, x, y)
+    await humanDelay(50, 150)
+    await page.mouse.click(x, y)
+    await humanDelay(100, 250)
+  } else {
+    // Fallback to normal click if no bounding box
+    await element.click()
+    await humanDelay(100, 250)
+  }
+}
+
+// Typing dengan kecepatan variabel seperti human
+export async function humanType(page: Page, element: Locator, text: string) {
+  await element.click()
+  await humanDelay(100, 300)
+
+  for (const char of text) {
+    // Pause lebih lama setelah punctuation atau space
+    const isPunctuation = '.!?,;:'.includes(char)
+    const isSpace = char === ' '
+    let delay: number
+
+    if (isPunctuation) {
+      delay = randomInt(150, 300)
+    } else if (isSpace) {
+      delay = randomInt(50, 120)
+    } else {
+      delay = randomInt(30, 90)
+    }
+
+    await page.keyboard.type(char, { delay: 0 })
+    await sleep(delay)
+  }
+}
+
+// Random scroll kecil (human sering scroll sedikit)
+export async function humanScroll(page: Page) {
+  if (Math.random() > 0.5) { // 50% chance to scroll
+    const scrollAmount = randomInt(-80, 80)
+    await page.mouse.wheel(0, scrollAmount)
+    await humanDelay(100, 300)
+  }
+}
+
+// Simulasi random mouse movement di area page (idle behavior)
+export async function humanIdleMovement(page: Page) {
+  if (Math.random() > 0.6) { // 40% chance
+    const x = randomInt(200, 1200)
+    const y = randomInt(200, 600)
+    await humanMouseMove(page, x, y)
+    await humanDelay(100, 200)
+  }
+}
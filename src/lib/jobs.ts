@@ -0,0 +1,650 @@
+// src/lib/jobs.ts
+// In-memory job registry - generation runs in the background, clients poll by job ID
+
+import crypto from 'crypto'
+import {
+  generateVideoViaPlaywright,
+  importFlowProject,
+  type VideoGenerationOptions,
+  type GenerationStage,
+  type DownloadedVideo,
+  type OutputFailure,
+  type IngredientResult,
+  type ExtendTarget,
+} from './playwright-veo'
+import { createGenerationQueue } from './queue'
+import { videoStorage } from './storage'
+import { historyStore, saveFrameReference, type FrameReference } from './history'
+import { recordGenerationUsage } from './usage'
+import { removeFrameFiles, optionImagePaths } from './frames'
+import { deliverWebhook, type WebhookDelivery } from './webhooks'
+import { getPoolCapacity } from './browser-pool'
+import { InternalError, ERROR_DEFINITIONS, type ErrorCode } from './errors'
+import { clipKey } from './flow-page'
+
+// How many finished jobs to keep around for status polling
+const MAX_FINISHED_JOBS = Number(process.env.JOB_HISTORY_LIMIT) || 200
+
+// Queue configuration - by default as many generations as the healthy browser profiles can run,
+// since each profile is its own Flow account. GENERATION_CONCURRENCY pins a fixed limit instead.
+// A started job whose profile is busy (pinned, or held by capabilities/import work) waits in acquireProfile
+const GENERATION_CONCURRENCY = Number(process.env.GENERATION_CONCURRENCY) || getPoolCapacity
+const GENERATION_QUEUE_MAX = Number(process.env.GENERATION_QUEUE_MAX) || 20
+
+// Keep a local copy of every generated video unless explicitly disabled
+const DOWNLOAD_VIDEOS = process.env.DOWNLOAD_VIDEOS !== 'false'
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+// States a job never leaves
+export const FINISHED_JOB_STATES: JobState[] = ['succeeded', 'failed', 'cancelled']
+
+export type JobProgressEntry = {
+  timestamp: string
+  stage: GenerationStage
+  message: string
+  elapsedMs: number
+  percent?: number
+}
+
+// Request summary exposed to clients - frames are reduced to flags, never echoed back
+export type JobRequestSummary = {
+  prompt: string
+  aspectRatio: VideoGenerationOptions['aspectRatio']
+  mode: VideoGenerationOptions['mode']
+  outputsCount: VideoGenerationOptions['outputsCount']
+  model?: string
+  hasStartFrame: boolean
+  hasEndFrame: boolean
+  ingredientCount: number
+  // Existing project the job generates in, or the name asked for a new one
+  projectUrl?: string
+  projectName?: string
+  // Set on extend jobs: the clip being continued
+  extend?: ExtendTarget
+}
+
+// A downloaded video as exposed on the job - `url` is served by this API and does not expire
+export type JobVideo = {
+  id: string
+  url: string
+  sourceUrl: string
+  size: number
+  durationSeconds?: number
+}
+
+// The API key a job was submitted with
+export type JobOwner = {
+  keyId: string
+  keyName: string
+}
+
+export type Job = {
+  id: string
+  state: JobState
+  request: JobRequestSummary
+  submittedBy?: JobOwner
+  // Set when the job was created as part of POST /batch
+  batchId?: string
+  progress: JobProgressEntry[]
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  projectUrl?: string
+  // Browser profile the job ran on
+  profileId?: string
+  // Model Flow was set to, when the request named one
+  model?: string
+  videoUrls?: string[]
+  videos?: JobVideo[]
+  failedCount?: number
+  // Why each failed output failed, e.g. content-policy
+  failures?: OutputFailure[]
+  // Which ingredients Flow accepted, for ingredients-to-video
+  ingredients?: IngredientResult[]
+  // Extend jobs: the clip that was continued, and the scene's clips in order afterwards
+  extendedClipUrl?: string
+  scene?: string[]
+  // Client-safe failure message with its code - see lib/errors
+  error?: string
+  errorCode?: ErrorCode
+  retryable?: boolean
+  // Set on cancelled jobs: where the job was when it stopped
+  cancelledDuring?: GenerationStage | 'queued'
+  // Set once DELETE /jobs/:id asked a running job to stop
+  cancelRequestedAt?: string
+  webhook?: WebhookDelivery
+  // Set on jobs recorded from an existing Flow clip by POST /projects/:id/import rather than run here
+  importedAt?: string
+  // Only set while queued or running: 1-based place in line, 0 once running
+  queuePosition?: number
+  estimatedWaitSeconds?: number
+}
+
+// Events pushed to live subscribers (SSE streams)
+export type JobEvent =
+  | { type: 'state'; state: JobState }
+  | { type: 'progress'; progress: JobProgressEntry }
+  | { type: 'result'; job: Job }
+  | { type: 'error'; job: Job }
+
+export type JobListener = (event: JobEvent) => void
+
+export type SubmitJobOptions = {
+  priority?: number
+  callbackUrl?: string
+  submittedBy?: JobOwner
+  batchId?: string
+}
+
+export type SubmitJobResult =
+  | { accepted: true; job: Job; done: Promise<void> }
+  | { accepted: false; retryAfterSeconds: number }
+
+export type ImportProjectOptions = {
+  // Profile signed in to the project's account
+  profileId?: string
+  submittedBy?: JobOwner
+}
+
+export type ProjectImportResult = {
+  projectUrl: string
+  profileId: string
+  // One succeeded job per newly imported clip
+  imported: Job[]
+  // Clips a job already covers, from an earlier import or a run of this server
+  skipped: { videoUrl: string; jobId: string }[]
+}
+
+// cancelled: taken off the queue; cancelling: running, the browser is being stopped
+export type CancelJobResult = 'cancelled' | 'cancelling' | 'finished' | 'not-found'
+
+const jobs = new Map<string, Job>()
+
+// Options are held separately so base64 frames can be dropped once the run starts
+const pendingOptions = new Map<string, VideoGenerationOptions>()
+
+const listeners = new Map<string, Set<JobListener>>()
+
+// One controller per running job, aborted by cancelJob
+const abortControllers = new Map<string, AbortController>()
+
+function emit(jobId: string, event: JobEvent) {
+  for (const listener of listeners.get(jobId) || []) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error(`[Jobs] Listener error for ${jobId}:`, error)
+    }
+  }
+}
+
+// Send the terminal event and drop all subscribers - nothing else will happen to this job
+function emitFinished(job: Job) {
+  emit(job.id, job.state === 'succeeded' ? { type: 'result', job } : { type: 'error', job })
+  listeners.delete(job.id)
+}
+
+function summarizeRequest(options: VideoGenerationOptions): JobRequestSummary {
+  return {
+    prompt: options.prompt,
+    aspectRatio: options.aspectRatio,
+    mode: options.mode,
+    outputsCount: options.outputsCount,
+    model: options.model,
+    hasStartFrame: !!(options.startFramePath || options.startFrameBase64),
+    hasEndFrame: !!(options.endFramePath || options.endFrameBase64),
+    ingredientCount: options.ingredients?.length || 0,
+    projectUrl: options.projectUrl,
+    projectName: options.projectName,
+    extend: options.extend,
+  }
+}
+
+type JobFrames = { startFrame?: FrameReference; endFrame?: FrameReference }
+
+// Write the job's current state to the history store - failures are logged, never thrown
+async function recordJob(job: Job, frames: JobFrames = {}) {
+  try {
+    await historyStore.save({
+      id: job.id,
+      status: job.state,
+      options: {
+        prompt: job.request.prompt,
+        aspectRatio: job.request.aspectRatio,
+        mode: job.request.mode,
+        outputsCount: job.request.outputsCount,
+        model: job.request.model,
+        ingredientCount: job.request.ingredientCount || undefined,
+        projectName: job.request.projectName,
+        extend: job.request.extend,
+        ...frames,
+      },
+      submittedBy: job.submittedBy,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      progress: job.progress,
+      projectUrl: job.projectUrl,
+      profileId: job.profileId,
+      model: job.model,
+      ingredients: job.ingredients,
+      videoUrls: job.videoUrls,
+      videos: job.videos,
+      failedCount: job.failedCount,
+      error: job.error,
+      importedAt: job.importedAt,
+    })
+  } catch (error) {
+    console.error(`[Jobs] Failed to record history for ${job.id}:`, error)
+  }
+}
+
+// Persist downloaded videos - storage errors are logged but don't fail the job
+async function storeDownloads(job: Job, downloads: DownloadedVideo[]): Promise<JobVideo[]> {
+  const videos: JobVideo[] = []
+
+  for (const download of downloads) {
+    try {
+      const stored = await videoStorage.save(download.data, {
+        sourceUrl: download.sourceUrl,
+        contentType: download.contentType,
+        durationSeconds: download.durationSeconds,
+        jobId: job.id,
+        prompt: job.request.prompt,
+        aspectRatio: job.request.aspectRatio,
+        mode: job.request.mode,
+      })
+      videos.push({
+        id: stored.id,
+        url: `/api/veo/videos/${stored.id}`,
+        sourceUrl: stored.sourceUrl,
+        size: stored.size,
+        durationSeconds: stored.durationSeconds,
+      })
+    } catch (error) {
+      console.error(`[Jobs] Failed to store video for ${job.id}:`, error)
+    }
+  }
+
+  return videos
+}
+
+// Notify the job's callback URL - runs detached from the queue so slow receivers don't block generations
+function notifyWebhook(job: Job) {
+  if (!job.webhook) return
+
+  const durationMs = job.startedAt && job.finishedAt
+    ? new Date(job.finishedAt).getTime() - new Date(job.startedAt).getTime()
+    : 0
+  const videoUrls = job.videoUrls || []
+  const failedCount = job.failedCount || 0
+
+  const payload = {
+    jobId: job.id,
+    state: job.state,
+    outcome: job.state === 'cancelled' ? 'cancelled'
+      : job.state === 'failed' ? 'failure'
+      : failedCount > 0 ? 'partial' : 'success',
+    videoUrls,
+    videos: job.videos || [],
+    failedCount,
+    failures: job.failures || [],
+    ingredients: job.ingredients,
+    extendedClipUrl: job.extendedClipUrl,
+    scene: job.scene,
+    durationMs,
+    projectUrl: job.projectUrl,
+    model: job.model,
+    error: job.error,
+    errorCode: job.errorCode,
+    retryable: job.retryable,
+    finishedAt: job.finishedAt,
+  }
+
+  deliverWebhook(job.webhook, payload).catch(error => {
+    console.error(`[Jobs] Webhook delivery crashed for ${job.id}:`, error)
+  })
+}
+
+// Drop the oldest finished jobs once we go over the retention limit
+function pruneFinishedJobs() {
+  const finished = Array.from(jobs.values()).filter(job => FINISHED_JOB_STATES.includes(job.state))
+  const excess = finished.length - MAX_FINISHED_JOBS
+  for (let i = 0; i < excess; i++) {
+    jobs.delete(finished[i].id)
+  }
+}
+
+/**
+ * Run a queued job to completion
+ * Never rejects - failures are recorded on the job itself
+ */
+async function runJob(job: Job): Promise<Job> {
+  const options = pendingOptions.get(job.id)
+  pendingOptions.delete(job.id)
+
+  if (!options) {
+    job.state = 'failed'
+    job.error = 'Job options are no longer available'
+    job.errorCode = 'INTERNAL_ERROR'
+    job.retryable = true
+    job.finishedAt = new Date().toISOString()
+    emitFinished(job)
+    notifyWebhook(job)
+    await recordJob(job)
+    return job
+  }
+
+  job.state = 'running'
+  job.queuePosition = 0
+  job.estimatedWaitSeconds = undefined
+  job.startedAt = new Date().toISOString()
+  emit(job.id, { type: 'state', state: job.state })
+
+  // cancelJob may already have left an aborted controller if it ran just as the queue picked the job up
+  const controller = abortControllers.get(job.id) || new AbortController()
+  abortControllers.set(job.id, controller)
+
+  const frames: JobFrames = {
+    startFrame: options.startFramePath ? await saveFrameReference(options.startFramePath).catch(() => undefined) : undefined,
+    endFrame: options.endFramePath ? await saveFrameReference(options.endFramePath).catch(() => undefined) : undefined,
+  }
+  await recordJob(job, frames)
+
+  try {
+    const result = await generateVideoViaPlaywright({ downloadVideos: DOWNLOAD_VIDEOS, ...options }, (message, progress) => {
+      console.log(`[Jobs] ${job.id.substring(0, 8)}: ${message}`)
+      const entry: JobProgressEntry = { timestamp: new Date().toISOString(), ...progress }
+      job.progress.push(entry)
+      emit(job.id, { type: 'progress', progress: entry })
+    }, controller.signal)
+
+    job.projectUrl = result.projectUrl
+    job.profileId = result.profileId
+    job.ingredients = result.ingredients
+    job.model = result.model
+
+    if (result.cancelled) {
+      job.state = 'cancelled'
+      job.cancelledDuring = result.stage
+      job.error = `Job was cancelled during ${result.stage}`
+      job.errorCode = 'CANCELLED'
+      job.retryable = false
+    } else if (result.success) {
+      job.state = 'succeeded'
+      job.videoUrls = result.videoUrls
+      job.failedCount = result.failedCount
+      job.failures = result.failures
+      job.extendedClipUrl = result.extendedClipUrl
+      job.scene = result.scene
+      if (result.downloads?.length) {
+        job.videos = await storeDownloads(job, result.downloads)
+      }
+    } else {
+      job.state = 'failed'
+      job.failedCount = options.outputsCount || 1
+      job.failures = result.failures
+      job.error = result.error || ERROR_DEFINITIONS.GENERATION_FAILED.message
+      job.errorCode = result.errorCode || 'GENERATION_FAILED'
+      job.retryable = result.retryable ?? ERROR_DEFINITIONS[job.errorCode].retryable
+    }
+  } catch (error) {
+    console.error(`[Jobs] Run crashed for ${job.id}:`, error)
+    const failure = new InternalError(error)
+    job.state = 'failed'
+    job.failedCount = options.outputsCount || 1
+    job.error = failure.message
+    job.errorCode = failure.code
+    job.retryable = failure.retryable
+  }
+
+  abortControllers.delete(job.id)
+  job.finishedAt = new Date().toISOString()
+  job.queuePosition = undefined
+  // Frame and ingredient files belong to the job once submitted
+  await removeFrameFiles(optionImagePaths(options))
+
+  if (job.submittedBy) {
+    recordGenerationUsage(job.submittedBy.keyId, job.submittedBy.keyName, {
+      videosProduced: job.videoUrls?.length || 0,
+      failed: job.state === 'failed',
+      browserSeconds: (Date.parse(job.finishedAt) - Date.parse(job.startedAt)) / 1000,
+    })
+  }
+
+  emitFinished(job)
+  notifyWebhook(job)
+  await recordJob(job, frames)
+  pruneFinishedJobs()
+  return job
+}
+
+const generationQueue = createGenerationQueue<Job>({
+  worker: runJob,
+  concurrency: GENERATION_CONCURRENCY,
+  maxLength: GENERATION_QUEUE_MAX,
+})
+
+// Refresh queue position and wait estimate for jobs still waiting
+function withQueueInfo(job: Job): Job {
+  if (job.state === 'queued') {
+    const position = generationQueue.position(job.id)
+    if (position !== null) {
+      job.queuePosition = position
+      job.estimatedWaitSeconds = Math.ceil(generationQueue.estimateWaitMs(position) / 1000)
+    }
+  }
+  return job
+}
+
+/**
+ * Create a job and place it on the generation queue
+ * Returns accepted: false when the queue is full
+ * Frame and ingredient files in the options are deleted once the job finishes or is rejected
+ */
+export function submitJob(options: VideoGenerationOptions, submitOptions: SubmitJobOptions = {}): SubmitJobResult {
+  const { priority = 0, callbackUrl, submittedBy, batchId } = submitOptions
+
+  const job: Job = {
+    id: crypto.randomUUID(),
+    state: 'queued',
+    request: summarizeRequest(options),
+    submittedBy,
+    batchId,
+    progress: [],
+    createdAt: new Date().toISOString(),
+    webhook: callbackUrl ? { url: callbackUrl, status: 'pending', attempts: [] } : undefined,
+  }
+  pendingOptions.set(job.id, options)
+
+  const queued = generationQueue.enqueue(job.id, job, priority)
+  if (!queued.accepted) {
+    pendingOptions.delete(job.id)
+    void removeFrameFiles(optionImagePaths(options))
+    return queued
+  }
+
+  jobs.set(job.id, job)
+  void recordJob(job)
+  return { accepted: true, job: withQueueInfo(job), done: queued.done }
+}
+
+export function getJob(id: string): Job | undefined {
+  const job = jobs.get(id)
+  return job && withQueueInfo(job)
+}
+
+/**
+ * List jobs, newest first
+ */
+export function listJobs(filter: { state?: JobState } = {}): Job[] {
+  return Array.from(jobs.values())
+    .filter(job => !filter.state || job.state === filter.state)
+    .map(withQueueInfo)
+    .reverse()
+}
+
+export function getQueueStats() {
+  return generationQueue.stats()
+}
+
+/**
+ * How many more jobs the queue accepts right now
+ */
+export function getQueueCapacity(): number {
+  return generationQueue.capacity()
+}
+
+/**
+ * Cancel a job - queued jobs are taken off the queue straight away,
+ * running jobs have their browser run aborted and finish as cancelled shortly after
+ */
+export function cancelJob(id: string): CancelJobResult {
+  const job = jobs.get(id)
+  if (!job) return 'not-found'
+  if (FINISHED_JOB_STATES.includes(job.state)) return 'finished'
+
+  const controller = abortControllers.get(id)
+  if (controller) {
+    if (!controller.signal.aborted) {
+      job.cancelRequestedAt = new Date().toISOString()
+      console.log(`[Jobs] ${id.substring(0, 8)}: cancelling while running`)
+      controller.abort()
+    }
+    return 'cancelling'
+  }
+
+  // Picked up by the queue but runJob hasn't started yet - it finds this controller already aborted
+  if (!generationQueue.remove(id)) {
+    const early = new AbortController()
+    early.abort()
+    abortControllers.set(id, early)
+    job.cancelRequestedAt = new Date().toISOString()
+    return 'cancelling'
+  }
+
+  const options = pendingOptions.get(id)
+  pendingOptions.delete(id)
+  void removeFrameFiles(optionImagePaths(options))
+
+  job.state = 'cancelled'
+  job.error = 'Job was cancelled before it started'
+  job.errorCode = 'CANCELLED'
+  job.retryable = false
+  job.cancelledDuring = 'queued'
+  job.finishedAt = new Date().toISOString()
+  job.queuePosition = undefined
+  job.estimatedWaitSeconds = undefined
+  console.log(`[Jobs] ${id.substring(0, 8)}: cancelled while queued`)
+
+  emitFinished(job)
+  notifyWebhook(job)
+  void recordJob(job)
+  pruneFinishedJobs()
+  return 'cancelled'
+}
+
+/**
+ * Receive live events for a job until it finishes
+ * Returns an unsubscribe function
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  let jobListeners = listeners.get(id)
+  if (!jobListeners) {
+    jobListeners = new Set()
+    listeners.set(id, jobListeners)
+  }
+  jobListeners.add(listener)
+
+  return () => {
+    const current = listeners.get(id)
+    current?.delete(listener)
+    if (current?.size === 0) listeners.delete(id)
+  }
+}
+
+// Imported clips get an ID derived from the clip, so importing a project again finds them
+function importedJobId(videoUrl: string): string {
+  const hex = crypto.createHash('sha256').update(`flow-clip:${clipKey(videoUrl)}`).digest('hex')
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)].join('-')
+}
+
+// The job that already holds a clip: a known job that produced it, or an earlier import
+async function jobForClip(videoUrl: string): Promise<string | undefined> {
+  const key = clipKey(videoUrl)
+  const produced = Array.from(jobs.values()).find(job => job.videoUrls?.some(url => clipKey(url) === key))
+  if (produced) return produced.id
+
+  const id = importedJobId(videoUrl)
+  return (await historyStore.get(id)) ? id : undefined
+}
+
+/**
+ * Record the finished clips of an existing Flow project as succeeded jobs, with their videos stored
+ * Clips a job already covers are skipped without downloading
+ * Throws an ApiError when no profile is free or the project can't be opened
+ */
+export async function importProjectClips(
+  projectUrl: string,
+  { profileId, submittedBy }: ImportProjectOptions = {}
+): Promise<ProjectImportResult> {
+  const known = new Map<string, string>()
+  const project = await importFlowProject(projectUrl, {
+    profileId,
+    isKnown: async clip => {
+      const jobId = await jobForClip(clip.videoUrl)
+      if (jobId) known.set(clip.videoUrl, jobId)
+      return !!jobId
+    },
+  })
+
+  const imported: Job[] = []
+  const skipped: ProjectImportResult['skipped'] = []
+
+  for (const clip of project.clips) {
+    const existing = known.get(clip.videoUrl)
+    if (clip.alreadyImported && existing) {
+      skipped.push({ videoUrl: clip.videoUrl, jobId: existing })
+      continue
+    }
+
+    const now = new Date().toISOString()
+    const job: Job = {
+      id: importedJobId(clip.videoUrl),
+      state: 'succeeded',
+      request: {
+        prompt: clip.prompt || '',
+        aspectRatio: clip.aspectRatio,
+        mode: undefined,
+        outputsCount: 1,
+        model: clip.model,
+        hasStartFrame: false,
+        hasEndFrame: false,
+        ingredientCount: 0,
+        projectUrl: project.projectUrl,
+      },
+      submittedBy,
+      progress: [],
+      createdAt: now,
+      startedAt: now,
+      finishedAt: now,
+      importedAt: now,
+      projectUrl: project.projectUrl,
+      profileId: project.profileId,
+      model: clip.model,
+      videoUrls: [clip.videoUrl],
+      failedCount: 0,
+    }
+    // A clip whose download failed is still recorded, with its Flow URL only
+    job.videos = clip.download ? await storeDownloads(job, [clip.download]) : []
+
+    jobs.set(job.id, job)
+    await recordJob(job)
+    imported.push(job)
+  }
+
+  pruneFinishedJobs()
+  console.log(`[Jobs] Imported ${imported.length} clip(s) from ${project.projectUrl}, ${skipped.length} already recorded`)
+  return { projectUrl: project.projectUrl, profileId: project.profileId, imported, skipped }
+}
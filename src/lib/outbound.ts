@@ -0,0 +1,179 @@
+// src/lib/outbound.ts
+// Requests to URLs that clients supply (frame images, webhook callbacks) - every connection is checked
+// at DNS lookup time, so no hop of a request can reach loopback, private, link-local or metadata addresses
+
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import net from 'net'
+
+// Configuration from environment variables - only for local development against services on this machine
+const ALLOW_PRIVATE_URLS = process.env.ALLOW_PRIVATE_URLS === 'true'
+
+export type OutboundRequestOptions = {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  // Covers the whole exchange, redirects and body included
+  timeoutMs: number
+  // Redirects are followed one hop at a time so each is checked again; none by default
+  maxRedirects?: number
+}
+
+export type OutboundResponse = {
+  status: number
+  headers: http.IncomingHttpHeaders
+  // Read the body, giving up once it passes maxBytes
+  read: (maxBytes: number) => Promise<Buffer>
+  // Drop the body unread and close the connection
+  discard: () => void
+}
+
+const NON_PUBLIC_MESSAGE = 'resolves to a non-public address'
+
+const timedOut = (timeoutMs: number) => new Error(`timed out after ${Math.round(timeoutMs / 1000)}s`)
+
+const blockList = new net.BlockList()
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 3], // multicast and reserved
+] as const) {
+  blockList.addSubnet(prefix, bits, 'ipv4')
+}
+for (const [prefix, bits] of [
+  ['::', 127], // unspecified and loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockList.addSubnet(prefix, bits, 'ipv6')
+}
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges by BlockList itself
+
+/**
+ * Whether an IP address is one client-supplied URLs must not reach
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 0) return false
+  return !ALLOW_PRIVATE_URLS && blockList.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Whether a URL names a non-public host outright - an IP literal or localhost
+ * Hostnames are only resolved when a request is made; this catches the obvious cases at validation time
+ */
+export function hasNonPublicHost(value: string): boolean {
+  if (ALLOW_PRIVATE_URLS) return false
+  try {
+    const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '').toLowerCase()
+    return hostname === 'localhost' || hostname.endsWith('.localhost') || isNonPublicAddress(hostname)
+  } catch {
+    return false
+  }
+}
+
+// dns.lookup, failing the connection when any address the name resolves to is non-public
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0)
+    if (addresses.length === 0 || addresses.some(entry => isNonPublicAddress(entry.address))) {
+      return callback(new Error(NON_PUBLIC_MESSAGE), '', 0)
+    }
+    if (options.all) {
+      return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses)
+    }
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const declaredLength = Number(response.headers['content-length'])
+    if (declaredLength > maxBytes) {
+      response.destroy()
+      return reject(new Error(`is ${declaredLength} bytes, larger than the ${maxBytes} byte limit`))
+    }
+
+    const chunks: Buffer[] = []
+    let received = 0
+    response.on('data', (chunk: Buffer) => {
+      received += chunk.length
+      if (received > maxBytes) {
+        response.destroy()
+        reject(new Error(`is larger than the ${maxBytes} byte limit`))
+        return
+      }
+      chunks.push(chunk)
+    })
+    response.on('end', () => resolve(Buffer.concat(chunks)))
+    response.on('error', reject)
+    response.on('aborted', () => reject(new Error('connection closed before the body was complete')))
+  })
+}
+
+function send(url: URL, options: OutboundRequestOptions, signal: AbortSignal): Promise<OutboundResponse> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new Error('must be an http(s) URL'))
+  }
+  // IP literals never go through the lookup
+  if (isNonPublicAddress(url.hostname.replace(/^\[|\]$/g, ''))) {
+    return Promise.reject(new Error(NON_PUBLIC_MESSAGE))
+  }
+
+  const client = url.protocol === 'https:' ? https : http
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      method: options.method || 'GET',
+      headers: options.headers,
+      signal,
+      lookup: publicLookup,
+    }, (response) => {
+      // Errors after this point surface through read(); an unread body must not crash the process
+      response.on('error', () => undefined)
+      resolve({
+        status: response.statusCode || 0,
+        headers: response.headers,
+        read: (maxBytes) => readBody(response, maxBytes).catch(error => {
+          throw signal.aborted ? timedOut(options.timeoutMs) : error
+        }),
+        discard: () => { response.destroy() },
+      })
+    })
+    request.on('error', reject)
+    request.end(options.body)
+  })
+}
+
+/**
+ * Make a request to a client-supplied http(s) URL, refusing any hop that reaches a non-public address
+ * Resolves once the final response's headers arrive; the caller must read() or discard() its body
+ */
+export async function requestPublicUrl(url: string, options: OutboundRequestOptions): Promise<OutboundResponse> {
+  const signal = AbortSignal.timeout(options.timeoutMs)
+  const maxRedirects = options.maxRedirects ?? 0
+  let target = new URL(url)
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await send(target, options, signal)
+      const location = response.headers.location
+      if (response.status < 300 || response.status >= 400 || !location || redirects >= maxRedirects) {
+        return response
+      }
+      response.discard()
+      target = new URL(location, target)
+    }
+  } catch (error) {
+    throw signal.aborted ? timedOut(options.timeoutMs) : error
+  }
+}
@@ -2,177 +2,325 @@
 // Playwright implementation with persistent browser - login saved, browser reused
 
 import { chromium, type Browser, type Page, type BrowserContext } from 'playwright'
-import path from 'path'
-import os from 'os'
-import fs from 'fs'
-
-// Base URL - navigating here creates a new project each time
-const FLOW_BASE_URL = 'https://labs.google/fx/tools/flow/'
-
-// Configuration from environment variables
-const USER_DATA_DIR = process.env.PLAYWRIGHT_PROFILE_DIR || path.join(os.homedir(), '.playwright-veo-profile')
-const HEADLESS_MODE = process.env.HEADLESS_MODE === 'true'
-
-// Helper for delay
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-
-// ============ Human-Like Behavior Helpers ============
-
-// Random delay dengan variasi natural
-const humanDelay = (min = 100, max = 300) =>
-  sleep(Math.floor(Math.random() * (max - min + 1)) + min)
-
-// Random integer helper
-const randomInt = (min: number, max: number) =>
-  Math.floor(Math.random() * (max - min + 1)) + min
-
-// Simulasi gerakan mouse ke elemen dengan curve natural
-async function humanMouseMove(page: Page, x: number, y: number) {
-  // Add slight randomness to target position
-  const targetX = x + (Math.random() - 0.5) * 10
-  const targetY = y + (Math.random() - 0.5) * 10
-  // Move with natural steps (not instant)
-  await page.mouse.move(targetX, targetY, { steps: randomInt(5, 15) })
+import { validateGenerationOptions, formatValidationIssues } from './validation'
+import { writeFrameFromDataUrl, removeFrameFiles } from './frames'
+import { sleep, humanDelay } from './human'
+import {
+  createFlowPage,
+  detectSessionProblem,
+  clipKey,
+  FLOW_BASE_URL,
+  type FlowPage,
+  type FlowProjectSummary,
+  type FlowClip,
+  type ClipTarget,
+  type SelectorCheck,
+} from './flow-page'
+import { getFlowSelectors } from './flow-selectors'
+import { cacheCapabilities, type FlowCapabilities } from './flow-capabilities'
+import { resolveGenerationPolicy, type GenerationPolicy } from './generation-policy'
+import {
+  toApiError,
+  ValidationError,
+  BrowserLaunchError,
+  BrowserUnavailableError,
+  SessionExpiredError,
+  AccountQuotaError,
+  ElementNotFoundError,
+  GenerationFailedError,
+  ContentPolicyError,
+  TimeoutError,
+  type ApiError,
+  type ErrorCode,
+} from './errors'
+import {
+  acquireProfile,
+  releaseProfile,
+  describePoolUnavailable,
+  beginRelogin,
+  endRelogin,
+  type BrowserProfile,
+  type ProfileIssue,
+  type SessionProblem,
+  type BeginReloginResult,
+} from './browser-pool'
+
+// How long a re-login window stays open waiting for the operator to sign in
+const RELOGIN_TIMEOUT_MS = Number(process.env.RELOGIN_TIMEOUT_MS) || 10 * 60 * 1000
+
+// One browser connection per pool profile - reused for all requests on that profile
+// browser is only set for CDP connections; persistent contexts own their browser
+type ProfileConnection = {
+  browser?: Browser
+  context: BrowserContext
 }
 
-// Klik element dengan mouse movement natural
-async function humanClick(page: Page, element: import('playwright').Locator) {
-  const box = await element.boundingBox()
-  if (box) {
-    // Move mouse to element with slight offset
-    const x = box.x + box.width / 2 + (Math.random() - 0.5) * (box.width * 0.3)
-    const y = box.y + box.height / 2 + (Math.random() - 0.5) * (box.height * 0.3)
-    await humanMouseMove(page, x, y)
-    await humanDelay(50, 150)
-    await page.mouse.click(x, y)
-    await humanDelay(100, 250)
-  } else {
-    // Fallback to normal click if no bounding box
-    await element.click()
-    await humanDelay(100, 250)
-  }
-}
+const connections = new Map<string, ProfileConnection>()
+// Launches in flight, so concurrent runs on one profile don't both open its profile directory
+const connecting = new Map<string, Promise<BrowserContext>>()
 
-// Typing dengan kecepatan variabel seperti human
-async function humanType(page: Page, element: import('playwright').Locator, text: string) {
-  await element.click()
-  await humanDelay(100, 300)
-
-  for (const char of text) {
-    // Pause lebih lama setelah punctuation atau space
-    const isPunctuation = '.!?,;:'.includes(char)
-    const isSpace = char === ' '
-    let delay: number
-
-    if (isPunctuation) {
-      delay = randomInt(150, 300)
-    } else if (isSpace) {
-      delay = randomInt(50, 120)
-    } else {
-      delay = randomInt(30, 90)
-    }
+export type GenerationMode = 'text-to-video' | 'frames-to-video' | 'ingredients-to-video'
 
-    await page.keyboard.type(char, { delay: 0 })
-    await sleep(delay)
-  }
+// A reference image for ingredients-to-video
+export type IngredientInput = {
+  imageBase64?: string
+  // Image already on disk - takes precedence over imageBase64, never deleted here
+  imagePath?: string
+  // Caller's name for the ingredient, echoed in its result
+  label?: string
 }
 
-// Random scroll kecil (human sering scroll sedikit)
-async function humanScroll(page: Page) {
-  if (Math.random() > 0.5) { // 50% chance to scroll
-    const scrollAmount = randomInt(-80, 80)
-    await page.mouse.wheel(0, scrollAmount)
-    await humanDelay(100, 300)
-  }
+export type IngredientResult = {
+  // Position in the ingredients option
+  index: number
+  label?: string
+  // Whether Flow took the image as an ingredient
+  accepted: boolean
+  // Why it wasn't, when it wasn't
+  error?: string
 }
 
-// Simulasi random mouse movement di area page (idle behavior)
-async function humanIdleMovement(page: Page) {
-  if (Math.random() > 0.6) { // 40% chance
-    const x = randomInt(200, 1200)
-    const y = randomInt(200, 600)
-    await humanMouseMove(page, x, y)
-    await humanDelay(100, 200)
-  }
+// A clip to continue: the project it lives in, and the clip by URL or page position
+export type ExtendTarget = ClipTarget & {
+  projectUrl: string
 }
 
-// Global browser instance - reused for all requests
-let globalBrowser: Browser | null = null
-let browserContext: BrowserContext | null = null
-
-export type GenerationMode = 'text-to-video' | 'frames-to-video'
-
 export type VideoGenerationOptions = {
   prompt: string
   aspectRatio?: 'landscape' | 'portrait'
   mode?: GenerationMode
   outputsCount?: 1 | 2 | 3 | 4
+  // Model option to pick in the settings panel - see GET /api/veo/capabilities
+  model?: string
   startFrameBase64?: string
   endFrameBase64?: string
+  // Frames already on disk - take precedence over the base64 fields, never deleted here
+  startFramePath?: string
+  endFramePath?: string
+  // Reference images for ingredients-to-video
+  ingredients?: IngredientInput[]
+  // Fetch each finished video through the signed-in browser session before the page closes
+  downloadVideos?: boolean
+  // Timing and retry overrides - see lib/generation-policy
+  policy?: Partial<GenerationPolicy>
+  // Generate in this existing project instead of creating one
+  projectUrl?: string
+  // Title for the project this run creates
+  projectName?: string
+  // Continue this clip through the scene builder instead of generating in a new project
+  extend?: ExtendTarget
+  // Pool profile to run on, e.g. the one signed in to the account owning an existing project
+  profileId?: string
+}
+
+// Coarse stages of a generation run, reported with every progress message
+export type GenerationStage =
+  | 'launching'
+  | 'navigating'
+  | 'uploading-frames'
+  | 'configuring'
+  | 'entering-prompt'
+  | 'generating'
+  | 'retrying'
+  | 'downloading'
+  | 'finishing'
+
+export type GenerationProgress = {
+  stage: GenerationStage
+  message: string
+  elapsedMs: number
+  percent?: number
 }
 
+export type DownloadedVideo = {
+  sourceUrl: string
+  data: Buffer
+  contentType: string
+  durationSeconds?: number
+}
 
 export type VideoGenerationResult = {
   success: boolean
   videoUrls?: string[]
+  downloads?: DownloadedVideo[]
+  // Flow project the run ended up in, when it got that far
+  projectUrl?: string
+  // Model option picked in the settings panel, when the options named one
+  model?: string
+  // Tiles still showing "Failed Generation" when polling stopped
+  failedCount?: number
+  // Why each of those tiles failed
+  failures?: OutputFailure[]
+  // Per-ingredient outcome of the upload step, for ingredients-to-video
+  ingredients?: IngredientResult[]
+  // Extend runs: the clip that was continued, and the scene's clips in order afterwards
+  extendedClipUrl?: string
+  scene?: string[]
+  // Set when the run was stopped through the abort signal
+  cancelled?: boolean
+  // Stage the run was in when it failed or was cancelled
+  stage?: GenerationStage
+  // Pool profile the run used
+  profileId?: string
+  // Set when the run showed the profile's account can't be used right now
+  profileIssue?: ProfileIssue
+  // Set on failures - see lib/errors for the codes
+  errorCode?: ErrorCode
+  retryable?: boolean
+  // Safe to show clients; the raw failure is only logged
   error?: string
 }
 
+// Errors that say the profile's account can't be used, rather than anything about this request
+function profileIssueFor(error: ApiError): ProfileIssue | undefined {
+  switch (error.code) {
+    case 'SESSION_EXPIRED': return 'session-invalid'
+    case 'ACCOUNT_QUOTA_EXHAUSTED': return 'quota-exhausted'
+    case 'BROWSER_LAUNCH_FAILED': return 'launch-failed'
+    default: return undefined
+  }
+}
+
+// Messages Flow shows when an account has used up its generations
+const QUOTA_MESSAGE_PATTERN = /out of credits|not enough credits|quota (has been )?(exceeded|reached)|reached your (daily )?limit/i
+
+// Policy and safety refusals - the same request would be refused again
+// Phrases only: single words like "unsafe" or "harmful" also turn up in unrelated messages
+const CONTENT_POLICY_PATTERN = /(might|may|could|would|appears to) violate|violates? (our|the|google)|against our (policies|guidelines)|(content|usage|safety) polic|safety (filter|reasons|guidelines)|(unsafe|harmful|inappropriate) content|prominent (people|person)|(involving|depicting|of) minors|(prompt|image|request) (was|has been) (blocked|flagged)|can(no|')t generate (this|that)/i
+// Failures on Flow's side that a retry can get past
+const TRANSIENT_FAILURE_PATTERN = /something went wrong|try again|server error|temporarily|high demand|unavailable|timed out|network/i
+
+// content-policy: Flow refused the prompt or frames; transient: Flow-side trouble worth retrying;
+// unknown: no reason shown on the tile, retried like before
+export type OutputFailureReason = 'content-policy' | 'transient' | 'unknown'
+
+export type OutputFailure = {
+  // Position among the failed tiles, in page order
+  index: number
+  reason: OutputFailureReason
+  // Whether regenerating this output can succeed
+  retryable: boolean
+  // Reason text Flow showed, if any
+  message?: string
+}
+
+/**
+ * Indexes of the entries in current that weren't already in before - each entry of
+ * before accounts for one equal entry of current
+ */
+function newEntries(current: string[], before: string[]): number[] {
+  const remaining = [...before]
+  const added: number[] = []
+  current.forEach((entry, index) => {
+    const seen = remaining.indexOf(entry)
+    if (seen === -1) added.push(index)
+    else remaining.splice(seen, 1)
+  })
+  return added
+}
+
+/**
+ * Classify the text of a failed tile or toast
+ */
+function classifyFailure(text: string): Omit<OutputFailure, 'index'> {
+  const message = text
+    .replace(/Failed Generation/gi, '')
+    // Material icon ligatures (more_vert, refresh, ...) render as words
+    .replace(/\b[a-z]+(_[a-z]+)+\b|\b(refresh|delete|close|replay|error|warning|info)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 200) || undefined
+
+  if (message && CONTENT_POLICY_PATTERN.test(message)) {
+    return { reason: 'content-policy', retryable: false, message }
+  }
+  if (message && TRANSIENT_FAILURE_PATTERN.test(message)) {
+    return { reason: 'transient', retryable: true, message }
+  }
+  return { reason: 'unknown', retryable: true, message }
+}
+
 /**
- * Get or create browser instance
+ * Get or create the browser context for a pool profile
+ * Joins a launch already in progress for the same profile
+ */
+function connectToChrome(profile: BrowserProfile): Promise<BrowserContext> {
+  const pending = connecting.get(profile.id)
+  if (pending) return pending
+
+  const connection = openProfileContext(profile).finally(() => connecting.delete(profile.id))
+  connecting.set(profile.id, connection)
+  return connection
+}
+
+/**
+ * Reuse the profile's context, or connect over CDP / launch its persistent profile
  * Uses persistent profile so login is saved between sessions
- * Supports headless mode via HEADLESS_MODE env variable
+ * Supports headless mode per profile (HEADLESS_MODE env variable by default)
  */
-async function connectToChrome(): Promise<BrowserContext> {
+async function openProfileContext(profile: BrowserProfile): Promise<BrowserContext> {
+  const existing = connections.get(profile.id)
+
   // Check if existing browser is still usable
-  if (browserContext && globalBrowser?.isConnected()) {
-    console.log('[Playwright] Reusing existing browser')
-    return browserContext
+  if (existing?.browser?.isConnected()) {
+    console.log(`[Playwright] Reusing existing browser for profile ${profile.id}`)
+    return existing.context
   }
 
   // For persistent context, check if context is still valid
-  if (browserContext) {
+  if (existing && !existing.browser) {
     try {
       // Test if context is still alive
-      await browserContext.pages()
-      console.log('[Playwright] Reusing existing persistent context')
-      return browserContext
+      await existing.context.pages()
+      console.log(`[Playwright] Reusing existing persistent context for profile ${profile.id}`)
+      return existing.context
     } catch {
       console.log('[Playwright] Existing context was closed, creating new one...')
-      browserContext = null
     }
   }
+  connections.delete(profile.id)
 
   // Try CDP connection first (connect to user's own Chrome) - skip in headless mode
-  if (!HEADLESS_MODE) {
-    console.log('[Playwright] Trying to connect to Chrome via CDP on port 9222...')
+  if (profile.cdpEndpoint && !profile.headless) {
+    console.log(`[Playwright] Trying to connect to Chrome via CDP at ${profile.cdpEndpoint}...`)
 
     try {
-      const browser = await chromium.connectOverCDP('http://localhost:9222')
-      globalBrowser = browser
+      const browser = await chromium.connectOverCDP(profile.cdpEndpoint)
       const contexts = browser.contexts()
+      let context: BrowserContext
       if (contexts.length > 0) {
-        browserContext = contexts[0]
+        context = contexts[0]
         console.log('[Playwright] Connected to your Chrome via CDP')
       } else {
-        browserContext = await browser.newContext()
+        context = await browser.newContext()
         console.log('[Playwright] Created new context in your Chrome')
       }
-      return browserContext
-    } catch {
+      connections.set(profile.id, { browser, context })
+      return context
+    } catch (cdpError) {
+      if (!profile.userDataDir) {
+        console.error(`[Playwright] CDP endpoint ${profile.cdpEndpoint} for profile ${profile.id} is not reachable`)
+        throw new BrowserLaunchError(profile.id, cdpError)
+      }
       console.log('[Playwright] CDP not available, using persistent Chromium...')
     }
   }
 
+  if (!profile.userDataDir) {
+    console.error(`[Playwright] Profile ${profile.id} only has a CDP endpoint, which can't be used in headless mode`)
+    throw new BrowserLaunchError(profile.id)
+  }
+
   // Launch persistent Chromium (login will be saved)
-  console.log(`[Playwright] Mode: ${HEADLESS_MODE ? 'HEADLESS (new)' : 'VISIBLE'}`)
-  console.log(`[Playwright] Profile directory: ${USER_DATA_DIR}`)
+  const headless = profile.headless
+  console.log(`[Playwright] Mode: ${headless ? 'HEADLESS (new)' : 'VISIBLE'}`)
+  console.log(`[Playwright] Profile directory: ${profile.userDataDir}`)
 
   try {
     // Use launchPersistentContext to keep login state
-    browserContext = await chromium.launchPersistentContext(USER_DATA_DIR, {
+    const browserContext = await chromium.launchPersistentContext(profile.userDataDir, {
       // Use 'new' headless mode which is more stealth
-      headless: HEADLESS_MODE,
+      headless,
       channel: 'chrome', // Use installed Chrome instead of Chromium for better stealth
       args: [
         '--no-sandbox',
@@ -190,7 +338,7 @@ async function connectToChrome(): Promise<BrowserContext> {
         '--disable-default-apps',
         '--disable-component-extensions-with-background-pages',
         // Headless new mode (Chrome 112+)
-        ...(HEADLESS_MODE ? ['--headless=new'] : []),
+        ...(headless ? ['--headless=new'] : []),
       ],
       userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
       viewport: { width: 1920, height: 1080 },
@@ -341,9 +489,11 @@ async function connectToChrome(): Promise<BrowserContext> {
       }
     })
 
-    if (HEADLESS_MODE) {
+    connections.set(profile.id, { context: browserContext })
+
+    if (headless) {
       console.log('[Playwright] ⚠️ HEADLESS MODE with stealth enabled')
-      console.log('[Playwright] Make sure you have logged in before with HEADLESS_MODE=false!')
+      console.log(`[Playwright] If the session has expired, sign in with POST /api/admin/profiles/${profile.id}/relogin`)
     } else {
       console.log('[Playwright] Browser launched - login will be saved for headless mode')
     }
@@ -351,566 +501,429 @@ async function connectToChrome(): Promise<BrowserContext> {
     return browserContext
   } catch (launchError) {
     console.error('[Playwright] Failed to launch browser:', launchError)
-    throw new Error(
-      'Could not launch Chromium browser.\n' +
-      'Make sure Playwright browsers are installed: npx playwright install chromium\n\n' +
-      'Error: ' + (launchError instanceof Error ? launchError.message : String(launchError))
-    )
+    console.error('[Playwright] Make sure Playwright browsers are installed: npx playwright install chromium')
+    throw new BrowserLaunchError(profile.id, launchError)
   }
 }
 
+/**
+ * Download videos using the page's browser context so the Flow session cookies apply
+ * Failed downloads are logged and skipped - the raw URLs are still returned to the caller
+ */
+async function downloadVideos(
+  page: Page,
+  videoUrls: string[],
+  log: (msg: string) => void
+): Promise<DownloadedVideo[]> {
+  const downloads: DownloadedVideo[] = []
+
+  for (const [index, url] of videoUrls.entries()) {
+    try {
+      // Read the duration from the <video> element while it is still on the page
+      const durationSeconds = await page.evaluate((src: string) => {
+        const video = Array.from(document.querySelectorAll('video'))
+          .find(v => (v.src || v.currentSrc) === src)
+        return video && Number.isFinite(video.duration) ? video.duration : undefined
+      }, url)
+
+      const response = await page.context().request.get(url, { timeout: 120000 })
+      if (!response.ok()) {
+        log(`Download failed for video ${index + 1}: HTTP ${response.status()}`)
+        continue
+      }
+
+      const data = await response.body()
+      downloads.push({
+        sourceUrl: url,
+        data,
+        contentType: response.headers()['content-type'] || 'video/mp4',
+        durationSeconds,
+      })
+      log(`Downloaded video ${index + 1}/${videoUrls.length} (${Math.round(data.length / 1024)} KB)`)
+    } catch (error) {
+      log(`Download error for video ${index + 1}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return downloads
+}
+
 /**
  * Generate video by automating Google Labs Flow UI using Playwright
- * Supports both text-to-video and frames-to-video modes
+ * Supports text-to-video, frames-to-video and ingredients-to-video modes, in a new project or
+ * an existing one, and extending a clip of an existing project through the scene builder
+ * Aborting the signal closes the page and resolves with cancelled: true
  */
 export async function generateVideoViaPlaywright(
   options: VideoGenerationOptions,
-  onProgress?: (message: string) => void
+  onProgress?: (message: string, progress: GenerationProgress) => void,
+  signal?: AbortSignal
 ): Promise<VideoGenerationResult> {
+  // Reject bad input before touching the browser
+  const validation = validateGenerationOptions(options)
+  if (!validation.valid) {
+    const invalid = new ValidationError(`Invalid generation options: ${formatValidationIssues(validation.errors)}`)
+    return { success: false, errorCode: invalid.code, retryable: invalid.retryable, error: invalid.message }
+  }
+
   const {
     prompt,
     aspectRatio = 'landscape',
     mode = 'text-to-video',
     outputsCount = 1,
+    model,
     startFrameBase64,
     endFrameBase64,
+    startFramePath,
+    endFramePath,
+    ingredients = [],
+    extend,
+    downloadVideos: shouldDownload = false,
   } = options
+  const policy = resolveGenerationPolicy(options.policy)
+
+  // Every run gets a pool profile - the job queue keeps runs within pool capacity, and a run
+  // waits here while a pinned profile or one busy with other Flow work frees up
+  const profile = await acquireProfile(options.profileId, {
+    signal,
+    onWait: () => {
+      const message = options.profileId ? `Waiting for browser profile ${options.profileId}...` : 'Waiting for a free browser profile...'
+      console.log(`[Playwright] ${message}`)
+      onProgress?.(message, { stage: 'launching', message, elapsedMs: 0 })
+    },
+  })
+  if (!profile && signal?.aborted) {
+    return {
+      success: false,
+      cancelled: true,
+      stage: 'launching',
+      errorCode: 'CANCELLED',
+      retryable: false,
+      error: 'Generation cancelled while waiting for a browser profile'
+    }
+  }
+  if (!profile) {
+    const unavailable = new BrowserUnavailableError(options.profileId
+      ? `Browser profile ${options.profileId} is busy or no longer in the pool`
+      : describePoolUnavailable())
+    return {
+      success: false,
+      stage: 'launching',
+      errorCode: unavailable.code,
+      retryable: unavailable.retryable,
+      error: unavailable.message
+    }
+  }
 
   const startTime = Date.now()
   let page: Page | null = null
-
-  const log = (msg: string) => {
+  let stage: GenerationStage = 'launching'
+  let projectUrl: string | undefined
+  let succeeded = false
+  let profileIssue: ProfileIssue | undefined
+  let sessionProblem: SessionProblem | undefined
+  // Failed output tiles seen on the last poll
+  let failures: OutputFailure[] = []
+  // Filled in by the upload step, one entry per requested ingredient
+  let ingredientResults: IngredientResult[] | undefined
+  let selectedModel: string | undefined
+  let extendedClipUrl: string | undefined
+
+  const log = (msg: string, percent?: number) => {
     console.log(`[Playwright] ${msg}`)
-    onProgress?.(msg)
+    onProgress?.(msg, { stage, message: msg, elapsedMs: Date.now() - startTime, percent })
+  }
+
+  // Closing the page makes whatever Playwright call is pending reject straight away
+  const onAbort = () => {
+    log(`Cancellation requested during ${stage}, closing page...`)
+    page?.close().catch(() => undefined)
   }
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  // Called between steps so nothing new is clicked once cancelled
+  const checkCancelled = () => signal?.throwIfAborted()
 
   try {
-    const context = await connectToChrome()
+    checkCancelled()
+    log(`Using browser profile ${profile.id}`)
+    const context = await connectToChrome(profile)
+    checkCancelled()
 
     // Create a new tab
+    stage = 'navigating'
     log('Opening Flow in new tab...')
     page = await context.newPage()
+    const flow = createFlowPage(page, { profileId: profile.id, log, signal, policy })
 
-    // Navigate to base Flow URL - this should redirect to a new project
-    await page.goto(FLOW_BASE_URL, { waitUntil: 'networkidle' })
-    // Human-like wait: random 8-12 seconds instead of fixed 20s
-    await humanDelay(8000, 12000)
-    await humanIdleMovement(page)
-
-    // Check if we need to create a new project manually
-    const currentUrl = page.url()
-    log(`Current URL: ${currentUrl}`)
-
-    // If we're on the tool page but not in a project, look for "New project" button
-    if (!currentUrl.includes('/project/')) {
-      log('Looking for New Project button...')
+    // Existing projects keep their earlier clips; the baseline read below leaves them out
+    const existingProject = extend?.projectUrl || options.projectUrl
+    projectUrl = existingProject ? await flow.openProject(existingProject) : await flow.openNewProject()
+    log(`Project ready: ${projectUrl}`)
 
-      // Try to find and click "New project" or similar button
-      const newProjectBtn = await page.locator('button, a').filter({
-        hasText: /new.*(project|video)|create|start/i
-      }).first()
+    // Wait for page to be ready
+    log('Waiting for page to load...')
+    await flow.waitUntilReady()
+    log('Page ready')
 
-      if (await newProjectBtn.isVisible({ timeout: 2000 }).catch(() => false)) {
-        await humanClick(page, newProjectBtn)
-        await humanDelay(1500, 2500)
+    // A missing name is cosmetic - the run goes on with Flow's default title
+    if (options.projectName && !existingProject) {
+      try {
+        if (!(await flow.renameProject(options.projectName))) log('Project title field not found, keeping the default name')
+      } catch (renameError) {
+        if (signal?.aborted) throw renameError
+        log(`Could not name the project: ${renameError instanceof Error ? renameError.message : String(renameError)}`)
       }
     }
 
-    // If already on a project, we may want to start fresh
-    // Look for a way to create new project from menu
-    if (currentUrl.includes('/project/')) {
-      log('Already on a project page, creating new project...')
-
-      // Try to find menu or "new" button
-      try {
-        // Look for menu button (often 3 dots or hamburger)
-        const menuBtn = await page.locator('button').filter({
-          has: page.locator('i:text("more_vert"), i:text("menu")')
-        }).first()
-
-        if (await menuBtn.isVisible({ timeout: 2000 }).catch(() => false)) {
-          await humanClick(page, menuBtn)
-          await humanDelay(300, 600)
-
-          // Look for "New project" option in menu
-          const newOption = await page.locator('[role="menuitem"], li, button').filter({
-            hasText: /new.*project/i
-          }).first()
-
-          if (await newOption.isVisible({ timeout: 2000 }).catch(() => false)) {
-            await humanClick(page, newOption)
-            await humanDelay(1500, 2500)
-          } else {
-            await page.keyboard.press('Escape')
+    checkCancelled()
+
+    // Switch mode if needed (Frames to Video, Ingredients to Video)
+    if (mode !== 'text-to-video') {
+      stage = 'uploading-frames'
+      const modeName = mode === 'frames-to-video' ? 'Frames to Video' : 'Ingredients to Video'
+      log(`Switching to ${modeName} mode...`)
+
+      // Upload an image from a file path, or a data URL saved to a temp file
+      const uploadImage = async (source: { path?: string; base64?: string }, imageName: string) => {
+        checkCancelled()
+        log(`Uploading ${imageName}...`)
+
+        let imageFile = source.path
+        let isTemporary = false
+
+        if (!imageFile && source.base64) {
+          try {
+            imageFile = (await writeFrameFromDataUrl(source.base64)).path
+            isTemporary = true
+            log(`Saved ${imageName} to temp file`)
+          } catch {
+            log(`Invalid base64 format for ${imageName}`)
+            return false
           }
         }
 
-        // Alternative: look for a direct "New" or "+" button in UI
-        const directNewBtn = await page.locator('button[aria-label*="new" i], button[aria-label*="create" i], button').filter({
-          has: page.locator('i:text("add"), i:text("add_circle")')
-        }).first()
+        if (!imageFile) return false
 
-        if (await directNewBtn.isVisible({ timeout: 2000 }).catch(() => false)) {
-          await humanClick(page, directNewBtn)
-          await humanDelay(1500, 2500)
+        try {
+          return await flow.uploadFrame(imageFile, imageName, aspectRatio)
+        } finally {
+          // Cleanup temp file - caller-provided files are the caller's to remove
+          if (isTemporary) {
+            await removeFrameFiles([imageFile])
+          }
         }
-      } catch {
-        log('Could not find new project option, will use current project')
       }
-    }
-
-    // Wait for project page to be ready
-    try {
-      await page.waitForURL(/labs\.google\/fx\/tools\/flow\/project\//, { timeout: 15000 })
-    } catch {
-      // If no redirect, try direct navigation again
-      log('Retrying navigation to create new project...')
-      await page.goto(FLOW_BASE_URL + '?new=' + Date.now(), { waitUntil: 'networkidle' })
-      await page.waitForURL(/labs\.google\/fx\/tools\/flow\/project\//, { timeout: 30000 })
-    }
-
-    const projectUrl = page.url()
-    log(`Project ready: ${projectUrl}`)
 
-    // Wait for page to be ready
-    log('Waiting for page to load...')
-    await page.waitForSelector('textarea#PINHOLE_TEXT_AREA_ELEMENT_ID', { timeout: 30000 })
-    log('Page ready')
+      if (mode === 'ingredients-to-video') {
+        ingredientResults = ingredients.map((ingredient, index) => ({ index, label: ingredient.label, accepted: false }))
+      }
 
-    // Switch mode if needed (Frames to Video)
-    if (mode === 'frames-to-video') {
-      log('Switching to Frames to Video mode...')
       try {
-        // Click on the mode dropdown (left side of prompt bar)
-        const modeDropdown = await page.locator('button').filter({ hasText: /text to video/i }).first()
-        if (await modeDropdown.isVisible({ timeout: 3000 })) {
-          await humanClick(page, modeDropdown)
-          await humanDelay(400, 700)
-
-          // Select Frames to Video option
-          const framesOption = await page.locator('[role="option"], li').filter({ hasText: /frames to video/i }).first()
-          if (await framesOption.isVisible({ timeout: 2000 })) {
-            await humanClick(page, framesOption)
-            await humanDelay(800, 1200)
-            log('Switched to Frames to Video mode')
-
-            // IMPORTANT: Configure Settings (aspect ratio) BEFORE uploading frames
-            // This ensures the crop modal uses the correct orientation
-            log(`Setting aspect ratio to ${aspectRatio} before frame upload...`)
-            try {
-              const settingsBtn = await page.locator('button').filter({ has: page.locator('i:text("tune")') }).first()
-              if (await settingsBtn.isVisible({ timeout: 2000 })) {
-                await humanClick(page, settingsBtn)
-                await humanDelay(600, 1000)
-
-                const aspectCombo = await page.locator('button[role="combobox"]').filter({
-                  hasText: /Aspect Ratio/i
-                }).first()
-                if (await aspectCombo.isVisible({ timeout: 2000 })) {
-                  await humanClick(page, aspectCombo)
-                  await humanDelay(300, 500)
-
-                  const aspectTextMap: Record<string, string> = {
-                    'landscape': '16:9',
-                    'portrait': '9:16'
-                  }
-                  const targetText = aspectTextMap[aspectRatio] || '16:9'
-
-                  const option = await page.locator('[role="option"]').filter({
-                    hasText: new RegExp(targetText)
-                  }).first()
-
-                  if (await option.isVisible({ timeout: 1000 })) {
-                    await humanClick(page, option)
-                    await humanDelay(300, 500)
-                    log(`Aspect ratio set to ${aspectRatio} (${targetText}) - crop will use this orientation`)
-                  } else {
-                    await page.keyboard.press('Escape')
-                  }
-                }
-
-                // Close settings panel
-                await page.keyboard.press('Escape')
-                await sleep(300)
-              }
-            } catch {
-              log('Could not configure aspect ratio before upload, continuing...')
-            }
+        if (await flow.selectMode(mode)) {
+          log(`Switched to ${modeName} mode`)
+
+          // IMPORTANT: Configure the aspect ratio BEFORE uploading frames
+          // This ensures the crop modal uses the correct orientation
+          log(`Setting aspect ratio to ${aspectRatio} before upload...`)
+          await flow.setAspectRatio(aspectRatio).catch(() => {
+            log('Could not configure aspect ratio before upload, continuing...')
+          })
 
-            // Helper function to upload a frame
-            const uploadFrame = async (base64Data: string, frameIndex: number, frameName: string) => {
-              if (!page) return false
-
-              log(`Uploading ${frameName}...`)
-
-              // Extract base64 content and determine file extension
-              const matches = base64Data.match(/^data:image\/(\w+);base64,(.+)$/)
-              if (!matches) {
-                log(`Invalid base64 format for ${frameName}`)
-                return false
-              }
-
-              const ext = matches[1] === 'jpeg' ? 'jpg' : matches[1]
-              const base64Content = matches[2]
-
-              // Save to temp file
-              const tempDir = os.tmpdir()
-              const tempFile = path.join(tempDir, `veo_frame_${Date.now()}_${frameIndex}.${ext}`)
-              fs.writeFileSync(tempFile, Buffer.from(base64Content, 'base64'))
-              log(`Saved ${frameName} to temp file`)
-
-              try {
-                // Click the Add button for this frame slot
-                // IMPORTANT: After first frame upload, the first slot no longer has Add button
-                // So for end frame, we need to click the FIRST available Add button (not index 1)
-                const addButtons = await page.locator('button').filter({ hasText: 'add' }).all()
-
-                // For end frame (index 1), after start frame is uploaded, there's only 1 Add button left
-                // So we need to click index 0 of available buttons, not index 1
-                const buttonIndex = frameIndex === 0 ? 0 : 0 // Always click first available Add button
-
-                if (addButtons.length > 0) {
-                  await addButtons[buttonIndex].click()
-                  await sleep(1000)
-                  log(`Clicked Add button for ${frameName} (button ${buttonIndex + 1} of ${addButtons.length})`)
-
-                  // Wait for Asset Library modal to appear
-                  // The file input is hidden but we can set files directly on it
-                  const fileInput = await page.locator('input[type="file"]').first()
-                  await fileInput.setInputFiles(tempFile)
-                  log(`File selected for ${frameName}`)
-                  await sleep(1500)
-
-                  // IMPORTANT: After file selection, a "Crop your ingredient" modal appears
-                  // Use JavaScript evaluate for more reliable DOM interaction
-                  const targetOrientation = aspectRatio === 'portrait' ? 'Portrait' : 'Landscape'
-                  log(`Setting crop orientation to ${targetOrientation}...`)
-
-                  // Wait for the crop modal to fully appear
-                  await sleep(2000)
-
-                  // Use JavaScript to directly find and click the orientation elements
-                  const orientationResult = await page.evaluate(async (target: string) => {
-                    const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
-
-                    // Find the orientation dropdown (button with role="combobox" containing Landscape or Portrait)
-                    const buttons = Array.from(document.querySelectorAll('button[role="combobox"]'))
-                    const dropdown = buttons.find(btn =>
-                      btn.textContent && (btn.textContent.includes('Landscape') || btn.textContent.includes('Portrait'))
-                    ) as HTMLElement
-
-                    if (!dropdown) {
-                      return { success: false, error: 'Dropdown not found' }
-                    }
-
-                    // Check current orientation
-                    const currentText = dropdown.textContent || ''
-                    if (currentText.toLowerCase().includes(target.toLowerCase())) {
-                      return { success: true, message: `Already set to ${target}` }
-                    }
-
-                    // Click to open dropdown
-                    dropdown.click()
-                    await sleep(500)
-
-                    // Find the target option in the opened menu
-                    // Look for elements containing exactly the target text
-                    const allElements = Array.from(document.querySelectorAll('*'))
-                    const option = allElements.find(el => {
-                      const text = el.textContent?.trim()
-                      const isVisible = (el as HTMLElement).offsetParent !== null
-                      const rect = el.getBoundingClientRect()
-                      // Must be visible, have exact text, and be a reasonable size
-                      return text === target && isVisible && rect.width > 0 && rect.height > 0 && rect.height < 100
-                    }) as HTMLElement
-
-                    if (option) {
-                      option.click()
-                      return { success: true, message: `Clicked ${target} option` }
-                    }
-
-                    // Fallback: look for role="option" or li elements
-                    const options = Array.from(document.querySelectorAll('[role="option"], li, [role="menuitem"]'))
-                    const fallbackOption = options.find(el =>
-                      el.textContent?.trim() === target && (el as HTMLElement).offsetParent !== null
-                    ) as HTMLElement
-
-                    if (fallbackOption) {
-                      fallbackOption.click()
-                      return { success: true, message: `Clicked ${target} via fallback` }
-                    }
-
-                    // Last resort: use keyboard
-                    dropdown.focus()
-                    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }))
-                    await sleep(200)
-                    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }))
-
-                    return { success: true, message: 'Used keyboard navigation' }
-                  }, targetOrientation)
-
-                  log(`Orientation result: ${JSON.stringify(orientationResult)}`)
-
-                  await sleep(500)
-
-                  // Now click "Crop and Save" button
-                  const cropBtn = await page.locator('button').filter({ hasText: /Crop and Save/i }).first()
-                  if (await cropBtn.isVisible({ timeout: 5000 })) {
-                    await cropBtn.click()
-                    log(`Clicked Crop and Save for ${frameName}`)
-                    await sleep(2000)
-
-                    // After cropping, we return to Asset Library
-                    // The newly uploaded image is ALWAYS at the first position (top-left after Upload card)
-                    // Use the exact aria-label to find it
-                    const assetImage = await page.locator('button[aria-label="A media asset previously uploaded or selected by you"]').first()
-
-                    if (await assetImage.isVisible({ timeout: 3000 })) {
-                      await assetImage.click()
-                      await sleep(500)
-                      log(`Selected ${frameName} from library (newest upload)`)
-                    } else {
-                      // Fallback: try clicking the first button with an image in the dialog grid
-                      // This grid is ordered with newest first
-                      const imageButtons = await page.locator('[role="dialog"] button').filter({
-                        has: page.locator('img')
-                      }).all()
-                      // The first button is the "Upload" card, so we take the second one (index 1)
-                      if (imageButtons.length > 1) {
-                        await imageButtons[1].click()
-                        await sleep(500)
-                        log(`Selected ${frameName} (grid position 1)`)
-                      } else if (imageButtons.length === 1) {
-                        // Only one image button, try it
-                        await imageButtons[0].click()
-                        await sleep(500)
-                        log(`Selected ${frameName} (only available)`)
-                      } else {
-                        log(`No image buttons found for ${frameName}`)
-                      }
-                    }
-                  } else {
-                    log(`Crop modal not found for ${frameName}, trying direct selection...`)
-                    // Maybe the file was already in the library, try to select
-                    await page.keyboard.press('Escape')
-                    await sleep(300)
-                  }
-
-                  // Wait for modal to close
-                  await sleep(500)
-                }
-
-                return true
-              } finally {
-                // Cleanup temp file
-                try {
-                  fs.unlinkSync(tempFile)
-                } catch {
-                  // Ignore cleanup errors
-                }
-              }
+          if (mode === 'frames-to-video') {
+            if (startFramePath || startFrameBase64) {
+              await uploadImage({ path: startFramePath, base64: startFrameBase64 }, 'Start Frame')
             }
-
-            // Upload start frame (index 0)
-            if (startFrameBase64) {
-              await uploadFrame(startFrameBase64, 0, 'Start Frame')
+            if (endFramePath || endFrameBase64) {
+              await uploadImage({ path: endFramePath, base64: endFrameBase64 }, 'End Frame')
             }
+          }
 
-            // Upload end frame (index 1)
-            if (endFrameBase64) {
-              await uploadFrame(endFrameBase64, 1, 'End Frame')
+          // One ingredient failing doesn't stop the others - each gets its own result
+          for (const result of ingredientResults || []) {
+            const ingredient = ingredients[result.index]
+            const name = `Ingredient ${result.index + 1}${ingredient.label ? ` (${ingredient.label})` : ''}`
+            try {
+              result.accepted = await uploadImage({ path: ingredient.imagePath, base64: ingredient.imageBase64 }, name)
+              if (!result.accepted) result.error = 'Flow did not offer a slot for the image'
+            } catch (ingredientError) {
+              if (signal?.aborted) throw ingredientError
+              log(`${name} upload error: ${ingredientError instanceof Error ? ingredientError.message : String(ingredientError)}`)
+              result.error = 'Upload to Flow failed'
+              await page.keyboard.press('Escape')
+              await sleep(300)
             }
-
-            // Make sure all modals are closed
-            await page.keyboard.press('Escape')
-            await sleep(500)
-            log('Frame upload complete')
           }
+
+          // Make sure all modals are closed
+          await page.keyboard.press('Escape')
+          await sleep(500)
+          log('Upload complete')
+        } else if (ingredientResults) {
+          for (const result of ingredientResults) result.error = 'Ingredients to Video mode was not available'
         }
       } catch (frameError) {
-        log(`Frame upload error: ${frameError instanceof Error ? frameError.message : String(frameError)}`)
-        log('Continuing without frames...')
-      }
-    }
-
-    // Open Settings panel for aspect ratio and outputs count
-    log(`Configuring settings (aspect: ${aspectRatio}, outputs: ${outputsCount})...`)
-    try {
-      // Click Settings button (tune icon)
-      const settingsBtn = await page.locator('button').filter({ has: page.locator('i:text("tune")') }).first()
-      if (await settingsBtn.isVisible()) {
-        await humanClick(page, settingsBtn)
-        await humanDelay(500, 900)
-
-        // Set aspect ratio using "Aspect Ratio" text in dropdown
-        const aspectCombo = await page.locator('button[role="combobox"]').filter({
-          hasText: /Aspect Ratio/i
-        }).first()
-        if (await aspectCombo.isVisible({ timeout: 2000 })) {
-          await humanClick(page, aspectCombo)
-          await humanDelay(300, 500)
-
-          // Map our values to the dropdown option text
-          const aspectTextMap: Record<string, string> = {
-            'landscape': '16:9',
-            'portrait': '9:16',
-            'square': '1:1'
-          }
-          const targetText = aspectTextMap[aspectRatio] || '16:9'
-
-          // Find the option with matching ratio text
-          const option = await page.locator('[role="option"]').filter({
-            hasText: new RegExp(targetText)
-          }).first()
-
-          if (await option.isVisible({ timeout: 1000 })) {
-            await humanClick(page, option)
-            await humanDelay(300, 500)
-            log(`Aspect ratio set to ${aspectRatio} (${targetText})`)
-          } else {
-            log(`Aspect ratio option ${targetText} not found`)
-            await page.keyboard.press('Escape')
-            await humanDelay(150, 300)
-          }
-        } else {
-          log('Aspect Ratio dropdown not found')
+        if (signal?.aborted) throw frameError
+        log(`Upload error: ${frameError instanceof Error ? frameError.message : String(frameError)}`)
+        log(`Continuing without ${ingredientResults ? 'the remaining ingredients' : 'frames'}...`)
+        for (const result of ingredientResults || []) {
+          if (!result.accepted && !result.error) result.error = 'Upload to Flow failed'
         }
+      }
 
-        // Set outputs per prompt count using "Outputs per prompt" text
-        const outputsCombo = await page.locator('button[role="combobox"]').filter({
-          hasText: /Outputs per prompt/i
-        }).first()
-        if (await outputsCombo.isVisible({ timeout: 2000 })) {
-          await humanClick(page, outputsCombo)
-          await humanDelay(300, 500)
-
-          const outputOption = await page.locator('[role="option"]').filter({
-            hasText: new RegExp(`^${outputsCount}$`)
-          }).first()
-
-          if (await outputOption.isVisible({ timeout: 1000 })) {
-            await humanClick(page, outputOption)
-            await humanDelay(300, 500)
-            log(`Outputs per prompt set to ${outputsCount}`)
-          } else {
-            log(`Could not find option for ${outputsCount} outputs`)
-            await page.keyboard.press('Escape')
-            await humanDelay(150, 300)
-          }
-        } else {
-          log('Outputs per prompt dropdown not found')
+      // Without a single ingredient the run would only be a text-to-video generation
+      if (ingredientResults) {
+        const accepted = ingredientResults.filter(result => result.accepted).length
+        log(`${accepted}/${ingredientResults.length} ingredient(s) accepted`)
+        if (accepted === 0) {
+          throw new GenerationFailedError(`None of the ${ingredientResults.length} ingredient(s) could be added in Flow`)
         }
+      }
+    }
 
-        // Close settings panel
+    // Settings panel: aspect ratio and outputs count - an extension follows the clip it continues
+    checkCancelled()
+    stage = 'configuring'
+    if (!extend) {
+      log(`Configuring settings (aspect: ${aspectRatio}, outputs: ${outputsCount})...`)
+      let aspectRatioSet = false
+      let outputsCountSet = false
+      try {
+        aspectRatioSet = await flow.setAspectRatio(aspectRatio)
+        outputsCountSet = await flow.setOutputsCount(outputsCount)
+      } catch (settingsError) {
+        if (signal?.aborted) throw settingsError
+        log(`Settings error: ${settingsError instanceof Error ? settingsError.message : String(settingsError)}`)
+        // Try to close any open panel
         await page.keyboard.press('Escape')
-        await humanDelay(200, 400)
-        log('Settings configured')
-      } else {
-        log('Settings button not visible')
+        await humanDelay(150, 300)
       }
-    } catch (settingsError) {
-      log(`Settings error: ${settingsError instanceof Error ? settingsError.message : String(settingsError)}`)
-      // Try to close any open panel
-      await page.keyboard.press('Escape')
-      await humanDelay(150, 300)
+      // Going on would spend credits on videos of the wrong shape or number
+      if (!aspectRatioSet) throw new ElementNotFoundError(`${aspectRatio} aspect ratio setting`, stage)
+      if (!outputsCountSet) throw new ElementNotFoundError(`setting for ${outputsCount} outputs per prompt`, stage)
+      log('Settings configured')
     }
 
-    // Enter prompt with human-like typing
-    log('Entering prompt...')
-    const textarea = page.locator('textarea#PINHOLE_TEXT_AREA_ELEMENT_ID')
-
-    // Human scroll and idle before typing
-    await humanScroll(page)
-    await humanDelay(500, 1000)
+    // Unlike the other settings, a model that can't be picked fails the run - the default
+    // model may cost a very different number of credits
+    if (model) {
+      checkCancelled()
+      log(`Selecting model ${model}...`)
+      const choice = await flow.setModel(model)
+      if (!choice.selected) {
+        throw new ValidationError(`Flow does not offer the model "${model}" (available: ${choice.available.join(', ') || 'none'})`)
+      }
+      selectedModel = choice.selected
+    }
 
-    // Clear and type using human-like function
-    await textarea.click()
-    await humanDelay(200, 400)
-    await textarea.fill('') // Clear existing text
-    await humanDelay(300, 600)
+    // Scene builder: put the clip on the timeline and pick Extend, so the prompt continues it
+    if (extend) {
+      checkCancelled()
+      log('Opening the scene builder to extend the clip...')
+      extendedClipUrl = await flow.extendClip(extend)
+    }
 
-    // Type prompt with human-like variable delays
-    await humanType(page, textarea, prompt)
+    // What the page already shows, so only outputs of this run are counted
+    const before = await flow.readTiles()
+    const sceneBefore = extend ? (await flow.readScene()).map(clipKey) : []
 
-    // Short natural pause before clicking submit
-    await humanIdleMovement(page)
-    await humanDelay(800, 1500)
+    // Enter prompt with human-like typing
+    checkCancelled()
+    stage = 'entering-prompt'
+    log('Entering prompt...')
+    await flow.enterPrompt(prompt)
 
     // Click Create button with human-like mouse movement
+    checkCancelled()
     log('Clicking Create button...')
-    const createBtn = await page.locator('button').filter({ has: page.locator('i:text("arrow_forward")') }).first()
-    await humanClick(page, createBtn)
-    log('Generation started, waiting for video...')
+    await flow.submit()
+    stage = 'generating'
+    log('Generation started, waiting for video...', 0)
 
-    // Poll for video completion (max 5 minutes)
-    const maxWaitTime = 300000
-    const pollInterval = 8000
+    // Poll for video completion (policy.timeoutMs, 5 minutes by default)
+    const { timeoutMs, pollIntervalMs, maxRetries, stablePolls } = policy
     let elapsed = 0
     let videoUrls: string[] = []
+    let policyNotice: string | undefined
+    let lastPolicyNotices: string[] = []
     let lastVideoCount = 0
-    let stableCount = 0 // How many polls with no new videos
+    let stableCount = 0 // How many polls with no new videos and nothing rendering
     let retryAttempts = 0
-    const maxRetries = 2 // Maximum retry attempts per failed generation
 
-    while (elapsed < maxWaitTime) {
-      await sleep(pollInterval)
-      elapsed += pollInterval
+    while (elapsed < timeoutMs) {
+      await sleep(pollIntervalMs, signal)
+      checkCancelled()
+      elapsed += pollIntervalMs
 
-      const progress = Math.min(90, Math.round((elapsed / maxWaitTime) * 100))
-      log(`Generating... (${Math.round(elapsed / 1000)}s elapsed, ${progress}%)`)
+      const progress = Math.min(90, Math.round((elapsed / timeoutMs) * 100))
+      stage = 'generating'
+      log(`Generating... (${Math.round(elapsed / 1000)}s elapsed, ${progress}%)`, progress)
 
       // Check for videos (may be multiple if outputsCount > 1)
-      const result = await page.evaluate(() => {
-        // Look for videos with storage.googleapis.com URL
-        const videos = document.querySelectorAll('video')
-        const foundUrls: string[] = []
-
-        for (const video of videos) {
-          const src = video.src || video.currentSrc
-          if (src && src.includes('storage.googleapis.com/ai-sandbox-videofx/video/')) {
-            if (!foundUrls.includes(src)) {
-              foundUrls.push(src)
-            }
-          }
-        }
-
-        // Count "Failed Generation" indicators
-        let failedCount = 0
-        const allElements = document.querySelectorAll('*')
-        for (const el of allElements) {
-          if (el.textContent?.trim() === 'Failed Generation') {
-            failedCount++
-          }
-        }
+      const tiles = await flow.readTiles()
+
+      // Out-of-credits shows up as an alert or on the new tiles - text already on the page
+      // (old prompts, clip titles, earlier notices in a reused project) says nothing about this run
+      const runMessages = [
+        ...newEntries(tiles.notices, before.notices).map(index => tiles.notices[index]),
+        ...newEntries(tiles.failedTiles, before.failedTiles).map(index => tiles.failedTiles[index]),
+      ]
+      if (runMessages.some(message => QUOTA_MESSAGE_PATTERN.test(message))) {
+        console.log(`[Playwright] Profile ${profile.id} has no generation quota left`)
+        throw new AccountQuotaError(profile.id)
+      }
+      if (extend) {
+        tiles.videoUrls = (await flow.readScene()).filter(url => !sceneBefore.includes(clipKey(url)))
+      } else {
+        const seen = before.videoUrls.map(clipKey)
+        tiles.videoUrls = tiles.videoUrls.filter(url => !seen.includes(clipKey(url)))
+      }
 
-        // Return found URLs and failed count
-        return {
-          videoUrls: foundUrls,
-          failedCount,
-          totalDone: foundUrls.length + failedCount
-        }
-      })
+      failures = newEntries(tiles.failedTiles, before.failedTiles)
+        .map(index => ({ index, ...classifyFailure(tiles.failedTiles[index]) }))
+      // Only alerts that appeared since Create count, and only once they are still up on the next poll -
+      // a toast that merely mentions a policy and goes away must not end the run
+      const policyNotices = newEntries(tiles.notices, before.notices)
+        .map(index => tiles.notices[index])
+        .filter(notice => classifyFailure(notice).reason === 'content-policy')
+      policyNotice = policyNotices.find(notice => lastPolicyNotices.includes(notice))
+      lastPolicyNotices = policyNotices
+      const retryable = failures.filter(failure => failure.retryable)
 
-      if (result?.videoUrls && result.videoUrls.length > 0) {
-        videoUrls = result.videoUrls
+      if (tiles.videoUrls.length > 0) {
+        videoUrls = tiles.videoUrls
 
         // Log progress
-        if (result.failedCount > 0) {
-          log(`Found ${videoUrls.length} video(s), ${result.failedCount} failed`)
+        if (failures.length > 0) {
+          log(`Found ${videoUrls.length} video(s), ${failures.length} failed, ${tiles.pending} rendering`)
         } else {
-          log(`Found ${videoUrls.length}/${outputsCount} video(s)`)
+          log(`Found ${videoUrls.length}/${outputsCount} video(s), ${tiles.pending} rendering`)
         }
+      }
 
-        // If all outputs are done (success + failed = expected), we're done
-        if (result.totalDone >= outputsCount) {
-          log(`All ${outputsCount} generations completed (${videoUrls.length} success, ${result.failedCount} failed)`)
-          break
-        }
+      for (const failure of failures) {
+        log(`Output ${failure.index + 1} failed: ${failure.reason}${failure.message ? ` (${failure.message})` : ''}`)
+      }
+
+      // If all outputs are done (success + failed = expected) and nothing is left to retry, we're done
+      const allDone = tiles.videoUrls.length + failures.length >= outputsCount
+      if (allDone && (retryable.length === 0 || retryAttempts >= maxRetries)) {
+        log(`All ${outputsCount} generations completed (${videoUrls.length} success, ${failures.length} failed)`)
+        break
+      }
+
+      // A refused prompt may only be reported as a toast, with no tiles to wait for
+      if (policyNotice && videoUrls.length === 0 && retryable.length === 0) {
+        log(`Flow refused the request: ${policyNotice}`)
+        break
+      }
 
-        // Check if video count has stabilized (no new videos for 3 polls = 15 seconds)
-        if (videoUrls.length === lastVideoCount) {
+      if (videoUrls.length > 0) {
+        // Settle for fewer videos than asked only once nothing is still rendering
+        // and no new video has appeared for policy.stablePolls polls
+        if (tiles.pending === 0 && videoUrls.length === lastVideoCount) {
           stableCount++
-          if (stableCount >= 3 && videoUrls.length > 0) {
+          if (stableCount >= stablePolls) {
             log(`Video count stabilized at ${videoUrls.length}, proceeding with available videos`)
             break
           }
@@ -920,73 +933,15 @@ export async function generateVideoViaPlaywright(
         lastVideoCount = videoUrls.length
       }
 
-      // RETRY LOGIC: If there are failed generations and we haven't exceeded retry limit
-      if (result?.failedCount > 0 && retryAttempts < maxRetries) {
-        log(`Attempting to retry ${result.failedCount} failed generation(s)... (attempt ${retryAttempts + 1}/${maxRetries})`)
-
-        // Click retry button for failed generations using JavaScript
-        const retryResult = await page.evaluate(async () => {
-          const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
-          let retriedCount = 0
-
-          // Find all "Failed Generation" text elements
-          const allElements = Array.from(document.querySelectorAll('*'))
-          const failedElements = allElements.filter(el =>
-            el.textContent?.trim() === 'Failed Generation' &&
-            (el as HTMLElement).offsetParent !== null
-          )
-
-          for (const failedEl of failedElements) {
-            // Find the parent container that has the menu button (usually 3 dots or more_vert icon)
-            let parent = failedEl.parentElement
-            let menuBtn: HTMLElement | null = null
-
-            // Walk up the DOM to find the menu button
-            for (let i = 0; i < 10 && parent; i++) {
-              const buttons = parent.querySelectorAll('button')
-              for (const btn of buttons) {
-                // Look for menu button (has more_vert icon or 3 dots)
-                if (btn.textContent?.includes('more_vert') ||
-                  btn.querySelector('i')?.textContent?.includes('more_vert') ||
-                  btn.getAttribute('aria-label')?.toLowerCase().includes('more') ||
-                  btn.getAttribute('aria-label')?.toLowerCase().includes('menu')) {
-                  menuBtn = btn as HTMLElement
-                  break
-                }
-              }
-              if (menuBtn) break
-              parent = parent.parentElement
-            }
-
-            if (menuBtn) {
-              // Click the menu button
-              menuBtn.click()
-              await sleep(500)
-
-              // Look for "Regenerate" or "Retry" option in the menu
-              const menuItems = Array.from(document.querySelectorAll('[role="menuitem"], [role="option"], li, button'))
-              const retryOption = menuItems.find(item => {
-                const text = item.textContent?.toLowerCase() || ''
-                return text.includes('regenerate') || text.includes('retry') || text.includes('try again')
-              }) as HTMLElement
-
-              if (retryOption) {
-                retryOption.click()
-                retriedCount++
-                await sleep(500)
-              } else {
-                // Close menu if no retry option found
-                document.body.click()
-                await sleep(200)
-              }
-            }
-          }
+      // RETRY LOGIC: retry failed generations whose reason can change on a second try -
+      // policy refusals would only fail again and cost another credit
+      if (retryable.length > 0 && retryAttempts < maxRetries) {
+        stage = 'retrying'
+        log(`Attempting to retry ${retryable.length} failed generation(s)... (attempt ${retryAttempts + 1}/${maxRetries})`)
 
-          return { retriedCount }
-        })
-
-        if (retryResult?.retriedCount > 0) {
-          log(`Retried ${retryResult.retriedCount} failed generation(s)`)
+        const retriedCount = await flow.retryTiles(retryable.map(failure => failure.index))
+        if (retriedCount > 0) {
+          log(`Retried ${retriedCount} failed generation(s)`)
           retryAttempts++
           stableCount = 0 // Reset stable count to wait for new results
           lastVideoCount = videoUrls.length
@@ -996,28 +951,86 @@ export async function generateVideoViaPlaywright(
 
     // Return whatever videos we got (even if less than requested)
     if (videoUrls.length === 0) {
-      throw new Error('No videos generated - all generations may have failed')
+      const blocked = failures.filter(failure => failure.reason === 'content-policy')
+      if (policyNotice || (blocked.length > 0 && blocked.length === failures.length)) {
+        throw new ContentPolicyError(
+          `Flow refused to generate this request: ${policyNotice || blocked[0].message || 'content policy'}`
+        )
+      }
+      throw failures.length > 0
+        ? new GenerationFailedError(`All ${failures.length} generation(s) failed`)
+        : new TimeoutError(stage)
+    }
+
+    checkCancelled()
+
+    let downloads: DownloadedVideo[] | undefined
+    if (shouldDownload) {
+      stage = 'downloading'
+      log(`Downloading ${videoUrls.length} video(s)...`)
+      downloads = await downloadVideos(page, videoUrls, log)
     }
 
     const duration = Date.now() - startTime
+    stage = 'finishing'
     if (videoUrls.length < outputsCount) {
-      log(`Generated ${videoUrls.length}/${outputsCount} video(s) in ${Math.round(duration / 1000)}s (some failed)`)
+      log(`Generated ${videoUrls.length}/${outputsCount} video(s) in ${Math.round(duration / 1000)}s (some failed)`, 100)
     } else {
-      log(`Generated ${videoUrls.length} video(s) successfully in ${Math.round(duration / 1000)}s`)
+      log(`Generated ${videoUrls.length} video(s) successfully in ${Math.round(duration / 1000)}s`, 100)
     }
 
+    succeeded = true
     return {
       success: true,
       videoUrls,
+      downloads,
+      projectUrl,
+      model: selectedModel,
+      failedCount: failures.length,
+      failures,
+      ingredients: ingredientResults,
+      extendedClipUrl,
+      scene: extend ? await flow.readScene() : undefined,
+      profileId: profile.id,
     }
 
   } catch (error) {
+    if (signal?.aborted) {
+      log(`Cancelled during ${stage}`)
+      return {
+        success: false,
+        cancelled: true,
+        stage,
+        projectUrl,
+        profileId: profile.id,
+        errorCode: 'CANCELLED',
+        retryable: false,
+        error: `Generation cancelled during ${stage}`
+      }
+    }
+
+    // The raw error (and its stack) stays in the server log
     console.error('[Playwright] Error:', error)
+    const failure = toApiError(error, stage)
+    profileIssue = profileIssueFor(failure)
+    sessionProblem = failure instanceof SessionExpiredError ? failure.problem : undefined
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error)
+      stage,
+      projectUrl,
+      profileId: profile.id,
+      profileIssue,
+      failures: failures.length > 0 ? failures : undefined,
+      ingredients: ingredientResults,
+      errorCode: failure.code,
+      retryable: failure.retryable,
+      error: failure.message
     }
   } finally {
+    signal?.removeEventListener('abort', onAbort)
+    // Cancellation says nothing about the profile, so it doesn't count as a failure
+    releaseProfile(profile.id, { failed: !succeeded && !signal?.aborted, issue: profileIssue, sessionProblem })
+
     // Always close the page to free resources
     if (page) {
       try {
@@ -1029,6 +1042,262 @@ export async function generateVideoViaPlaywright(
   }
 }
 
+export type SelectorCheckReport = {
+  // Selector map version, and the overrides file if one is loaded
+  version: string
+  source?: string
+  profileId: string
+  projectUrl?: string
+  checkedAt: string
+  // False when any checked selector matched nothing
+  ok: boolean
+  selectors: SelectorCheck[]
+}
+
+// Projects on one profile's account, as listed on Flow's landing page
+export type FlowProjectList = {
+  profileId: string
+  listedAt: string
+  projects: FlowProjectSummary[]
+}
+
+/**
+ * Run fn on a Flow page of a pool profile - the given one, or any - for work outside a generation run
+ * Shares the pool's slots with queued generations, waiting like them when every matching profile is busy
+ * Throws an ApiError when no profile frees up in time or the page can't be read
+ */
+async function onFlowPage<T>(
+  tag: string,
+  fn: (flow: FlowPage, profile: BrowserProfile) => Promise<T>,
+  profileId?: string
+): Promise<T> {
+  const profile = await acquireProfile(profileId, { onWait: () => console.log(`[${tag}] Waiting for a browser profile...`) })
+  if (!profile) {
+    throw new BrowserUnavailableError(profileId
+      ? `Browser profile ${profileId} is busy or no longer in the pool`
+      : describePoolUnavailable())
+  }
+
+  let page: Page | null = null
+  let succeeded = false
+  let profileIssue: ProfileIssue | undefined
+  let sessionProblem: SessionProblem | undefined
+  const log = (msg: string) => console.log(`[${tag}] ${msg}`)
+
+  try {
+    const context = await connectToChrome(profile)
+    page = await context.newPage()
+    const flow = createFlowPage(page, { profileId: profile.id, log })
+
+    const result = await fn(flow, profile)
+    succeeded = true
+    return result
+  } catch (error) {
+    console.error(`[${tag}] Failed:`, error)
+    const failure = toApiError(error, 'navigating')
+    profileIssue = profileIssueFor(failure)
+    sessionProblem = failure instanceof SessionExpiredError ? failure.problem : undefined
+    throw failure
+  } finally {
+    releaseProfile(profile.id, { failed: !succeeded, issue: profileIssue, sessionProblem })
+    await page?.close().catch(() => undefined)
+  }
+}
+
+// A clip read for import, with its video fetched unless the caller already has it
+export type ImportedClip = FlowClip & {
+  download?: DownloadedVideo
+  alreadyImported?: boolean
+}
+
+export type ProjectImport = {
+  projectUrl: string
+  profileId: string
+  clips: ImportedClip[]
+}
+
+/**
+ * Read every finished clip of an existing project and download the ones isKnown doesn't claim
+ * Runs on the given profile, which must be signed in to the project's account, or any idle one
+ * Throws an ApiError when no profile is free or the project can't be opened
+ */
+export async function importFlowProject(
+  projectUrl: string,
+  { profileId, isKnown }: { profileId?: string; isKnown?: (clip: FlowClip) => Promise<boolean> } = {}
+): Promise<ProjectImport> {
+  const log = (msg: string) => console.log(`[Import] ${msg}`)
+
+  return onFlowPage('Import', async (flow, profile) => {
+    log(`Reading clips of ${projectUrl} on profile ${profile.id}...`)
+    const openedUrl = await flow.openProject(projectUrl)
+    await flow.waitUntilReady()
+
+    const clips: ImportedClip[] = []
+    for (const clip of await flow.readClips()) {
+      clips.push(isKnown && await isKnown(clip) ? { ...clip, alreadyImported: true } : clip)
+    }
+
+    const wanted = clips.filter(clip => !clip.alreadyImported)
+    log(`${wanted.length} of ${clips.length} clip(s) to import`)
+    const downloads = await downloadVideos(flow.page, wanted.map(clip => clip.videoUrl), log)
+    for (const clip of wanted) {
+      clip.download = downloads.find(download => download.sourceUrl === clip.videoUrl)
+    }
+
+    return { projectUrl: openedUrl, profileId: profile.id, clips }
+  }, profileId)
+}
+
+/**
+ * Run fn on a new Flow project opened on an idle profile
+ */
+const onNewProject = <T>(
+  tag: string,
+  fn: (flow: FlowPage, profile: BrowserProfile, projectUrl: string) => Promise<T>
+): Promise<T> => onFlowPage(tag, async (flow, profile) => fn(flow, profile, await flow.openNewProject()))
+
+/**
+ * List the projects of the account signed in on a profile - the given one, or any idle one
+ * Throws an ApiError when no profile is free or the landing page can't be read
+ */
+export async function listFlowProjects(profileId?: string): Promise<FlowProjectList> {
+  return onFlowPage('Projects', async (flow, profile) => {
+    console.log(`[Projects] Listing projects on profile ${profile.id}...`)
+    return {
+      profileId: profile.id,
+      listedAt: new Date().toISOString(),
+      projects: await flow.listProjects(),
+    }
+  }, profileId)
+}
+
+/**
+ * Open a new Flow project on an idle profile and report which selectors resolve
+ * Throws an ApiError when no profile is free or the project page can't be reached
+ */
+export async function checkFlowSelectors(): Promise<SelectorCheckReport> {
+  const log = (msg: string) => console.log(`[Selectors] ${msg}`)
+
+  return onNewProject('Selectors', async (flow, profile, projectUrl) => {
+    log(`Checking selectors on profile ${profile.id}...`)
+    try {
+      await flow.waitUntilReady()
+    } catch (error) {
+      // A missing prompt box is what the check is for - report the rest too
+      if (!(error instanceof ElementNotFoundError)) throw error
+    }
+
+    const selectors = await flow.checkSelectors()
+    const missing = selectors.filter(check => check.status === 'missing')
+    log(missing.length > 0
+      ? `${missing.length} selector(s) missing: ${missing.map(check => check.name).join(', ')}`
+      : 'All checked selectors resolve')
+
+    const { version, source } = getFlowSelectors()
+    return {
+      version,
+      source,
+      profileId: profile.id,
+      projectUrl,
+      checkedAt: new Date().toISOString(),
+      ok: missing.length === 0,
+      selectors,
+    }
+  })
+}
+
+// Discovery in flight, shared by concurrent callers
+let discovering: Promise<FlowCapabilities> | null = null
+
+/**
+ * Read the settings panel of a new Flow project and cache what it offers
+ * Throws an ApiError when no profile is free or the page can't be read
+ */
+export function discoverFlowCapabilities(): Promise<FlowCapabilities> {
+  if (discovering) return discovering
+
+  const log = (msg: string) => console.log(`[Capabilities] ${msg}`)
+  discovering = onNewProject('Capabilities', async (flow, profile) => {
+    log(`Reading Flow settings on profile ${profile.id}...`)
+    await flow.waitUntilReady()
+    return cacheCapabilities(await flow.readSettings(), profile.id)
+  }).finally(() => {
+    discovering = null
+  })
+  return discovering
+}
+
+// Close a profile's browser so its next run launches it again
+async function closeProfileContext(profileId: string) {
+  const connection = connections.get(profileId)
+  connections.delete(profileId)
+  if (!connection) return
+
+  try {
+    // Closing a CDP browser only disconnects; the user's own Chrome keeps running
+    await (connection.browser ? connection.browser.close() : connection.context.close())
+  } catch {
+    // Already closed
+  }
+}
+
+export type StartReloginResult = BeginReloginResult | { started: false; reason: 'launch-failed' }
+
+/**
+ * Open an idle profile in a visible window so an operator can sign it in again
+ * Resolves once the window is open; the profile returns to rotation (headless
+ * again if configured) when sign-in is detected, the window is closed, or RELOGIN_TIMEOUT_MS passes
+ */
+export async function startRelogin(profileId: string): Promise<StartReloginResult> {
+  const begun = beginRelogin(profileId)
+  if (!begun.started) return begun
+
+  const { profile } = begun
+  let context: BrowserContext
+  let page: Page
+
+  try {
+    // The profile directory can only be open in one browser, so drop the headless one first
+    await closeProfileContext(profile.id)
+    context = await openProfileContext({ ...profile, cdpEndpoint: undefined, headless: false })
+    page = context.pages()[0] || await context.newPage()
+    await page.goto(FLOW_BASE_URL, { waitUntil: 'domcontentloaded' })
+  } catch (error) {
+    console.error(`[Playwright] Could not open re-login window for profile ${profile.id}:`, error)
+    await closeProfileContext(profile.id)
+    endRelogin(profile.id, false)
+    return { started: false, reason: 'launch-failed' }
+  }
+
+  console.log(`[Playwright] Re-login window open for profile ${profile.id} - sign in to Google there`)
+  void watchRelogin(profile, page)
+  return begun
+}
+
+// Poll the re-login window until it shows a signed-in Flow page
+async function watchRelogin(profile: BrowserProfile, page: Page) {
+  const deadline = Date.now() + RELOGIN_TIMEOUT_MS
+  let signedIn = false
+
+  while (Date.now() < deadline && !page.isClosed()) {
+    await sleep(3000)
+    try {
+      if (page.url().startsWith(new URL(FLOW_BASE_URL).origin) && !(await detectSessionProblem(page))) {
+        signedIn = true
+        break
+      }
+    } catch {
+      // Page navigating or closed - checked again on the next pass
+    }
+  }
+
+  if (!signedIn) {
+    console.log(`[Playwright] Re-login for profile ${profile.id} ended without a signed-in session`)
+  }
+  await closeProfileContext(profile.id)
+  endRelogin(profile.id, signedIn)
+}
+
 /**
  * Check if Chrome is available for CDP connection
  */
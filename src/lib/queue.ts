@@ -0,0 +1,134 @@
+// src/lib/queue.ts
+// In-process generation queue - FIFO with priorities and a concurrency cap
+// The worker is injected, so the queue itself never touches the browser
+
+export type QueueOptions<T> = {
+  worker: (item: T) => Promise<unknown>
+  // A function is re-read on every check, for limits that change at runtime
+  concurrency?: number | (() => number)
+  maxLength?: number
+  // Starting guess for how long one item takes, refined as items complete
+  estimatedRunMs?: number
+}
+
+export type EnqueueResult =
+  | { accepted: true; position: number; done: Promise<void> }
+  | { accepted: false; retryAfterSeconds: number }
+
+export type QueueStats = {
+  running: number
+  waiting: number
+  concurrency: number
+  maxLength: number
+  averageRunMs: number
+}
+
+export type GenerationQueue<T> = {
+  enqueue: (id: string, item: T, priority?: number) => EnqueueResult
+  // Take a waiting item off the queue; false when it is running or unknown
+  remove: (id: string) => boolean
+  // Free waiting slots before enqueue starts rejecting
+  capacity: () => number
+  // 1-based position among waiting items, 0 while running, null when unknown
+  position: (id: string) => number | null
+  estimateWaitMs: (position: number) => number
+  stats: () => QueueStats
+}
+
+type QueueEntry<T> = {
+  id: string
+  item: T
+  priority: number
+  resolve: () => void
+}
+
+/**
+ * Create a queue that runs at most `concurrency` items at a time
+ * Higher priority runs first; equal priorities run in submission order
+ */
+export function createGenerationQueue<T>(options: QueueOptions<T>): GenerationQueue<T> {
+  const configured = options.concurrency ?? 1
+  const concurrency = () => Math.max(1, typeof configured === 'function' ? configured() : configured)
+  const maxLength = Math.max(0, options.maxLength ?? 20)
+  let averageRunMs = options.estimatedRunMs ?? 180000
+
+  const waiting: QueueEntry<T>[] = []
+  const running = new Set<string>()
+
+  const estimateWaitMs = (position: number) =>
+    Math.ceil((position + running.size) / concurrency()) * averageRunMs
+
+  const pump = () => {
+    while (running.size < concurrency() && waiting.length > 0) {
+      const entry = waiting.shift()!
+      running.add(entry.id)
+      const startedAt = Date.now()
+
+      Promise.resolve()
+        .then(() => options.worker(entry.item))
+        .catch(error => {
+          console.error(`[Queue] Worker failed for ${entry.id}:`, error)
+        })
+        .finally(() => {
+          // Exponential moving average keeps Retry-After estimates realistic
+          averageRunMs = Math.round(averageRunMs * 0.7 + (Date.now() - startedAt) * 0.3)
+          running.delete(entry.id)
+          entry.resolve()
+          pump()
+        })
+    }
+  }
+
+  const enqueue = (id: string, item: T, priority = 0): EnqueueResult => {
+    if (waiting.length >= maxLength) {
+      return {
+        accepted: false,
+        retryAfterSeconds: Math.ceil(estimateWaitMs(1) / 1000),
+      }
+    }
+
+    let resolve!: () => void
+    const done = new Promise<void>(r => { resolve = r })
+    const entry: QueueEntry<T> = { id, item, priority, resolve }
+
+    // Insert after every entry with the same or higher priority (keeps FIFO within a priority)
+    const index = waiting.findIndex(other => other.priority < priority)
+    if (index === -1) {
+      waiting.push(entry)
+    } else {
+      waiting.splice(index, 0, entry)
+    }
+
+    const queuedPosition = waiting.indexOf(entry) + 1
+    pump()
+
+    return { accepted: true, position: running.has(id) ? 0 : queuedPosition, done }
+  }
+
+  const remove = (id: string) => {
+    const index = waiting.findIndex(entry => entry.id === id)
+    if (index === -1) return false
+
+    const [entry] = waiting.splice(index, 1)
+    entry.resolve()
+    return true
+  }
+
+  const capacity = () => Math.max(0, maxLength - waiting.length)
+
+  const position = (id: string) => {
+    if (running.has(id)) return 0
+    const index = waiting.findIndex(entry => entry.id === id)
+    return index === -1 ? null : index + 1
+  }
+
+  const stats = (): QueueStats => ({
+    running: running.size,
+    waiting: waiting.length,
+    concurrency: concurrency(),
+    maxLength,
+    averageRunMs,
+  })
+
+  return { enqueue, remove, capacity, position, estimateWaitMs, stats }
+}
@@ -0,0 +1,91 @@
+// src/lib/rate-limit.ts
+// Token bucket limiter keyed by API key or client IP
+
+export type TokenBucketOptions = {
+  // Maximum tokens, also the burst size
+  capacity: number
+  // Time to refill the bucket from empty to full
+  windowMs: number
+}
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the bucket is full again
+  resetSeconds: number
+  // Seconds until the next token is available, 0 when allowed
+  retryAfterSeconds: number
+}
+
+export type RateLimiter = {
+  take: (key: string, cost?: number) => RateLimitResult
+  // Give back tokens taken for work that was turned away after all
+  refund: (key: string, cost?: number) => RateLimitResult
+}
+
+type Bucket = { tokens: number; updatedAt: number }
+
+// Buckets idle long enough to be full again carry no state worth keeping
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+/**
+ * Create a limiter whose buckets refill continuously at capacity / windowMs
+ * `now` is injectable so the limiter can be driven by a fake clock
+ */
+export function createTokenBucketLimiter(
+  options: TokenBucketOptions,
+  now: () => number = Date.now
+): RateLimiter {
+  const { capacity, windowMs } = options
+  const refillPerMs = capacity / windowMs
+  const buckets = new Map<string, Bucket>()
+  let lastSweep = now()
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < SWEEP_INTERVAL_MS) return
+    lastSweep = time
+    for (const [key, bucket] of buckets) {
+      if (time - bucket.updatedAt >= windowMs) buckets.delete(key)
+    }
+  }
+
+  // The key's bucket, refilled up to now
+  const current = (key: string, time: number): Bucket => {
+    const bucket = buckets.get(key) || { tokens: capacity, updatedAt: time }
+    bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs)
+    bucket.updatedAt = time
+    buckets.set(key, bucket)
+    return bucket
+  }
+
+  const result = (bucket: Bucket, allowed: boolean, cost: number): RateLimitResult => ({
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(bucket.tokens),
+    resetSeconds: Math.ceil((capacity - bucket.tokens) / refillPerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((cost - bucket.tokens) / refillPerMs / 1000),
+  })
+
+  const take = (key: string, cost = 1): RateLimitResult => {
+    const time = now()
+    sweep(time)
+
+    const bucket = current(key, time)
+
+    const allowed = bucket.tokens >= cost
+    if (allowed) {
+      bucket.tokens -= cost
+    }
+
+    return result(bucket, allowed, cost)
+  }
+
+  const refund = (key: string, cost = 1): RateLimitResult => {
+    const bucket = current(key, now())
+    bucket.tokens = Math.min(capacity, bucket.tokens + cost)
+    return result(bucket, true, cost)
+  }
+
+  return { take, refund }
+}
@@ -0,0 +1,98 @@
+// src/lib/storage.ts
+// Video storage - downloaded videos are content-addressed with a JSON metadata sidecar
+// Backends implement VideoStorage; local disk is the default
+
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { Readable } from 'stream'
+
+// Configuration from environment variables
+const VIDEO_STORAGE_DIR = process.env.VIDEO_STORAGE_DIR || path.join(os.homedir(), '.veo-videos')
+
+export type StoredVideoMetadata = {
+  id: string
+  sha256: string
+  size: number
+  contentType: string
+  sourceUrl: string
+  jobId: string
+  prompt: string
+  aspectRatio?: string
+  mode?: string
+  durationSeconds?: number
+  createdAt: string
+}
+
+// Everything the caller knows about a video before it is hashed and written
+export type NewVideoMetadata = Omit<StoredVideoMetadata, 'id' | 'sha256' | 'size' | 'createdAt'>
+
+export type ByteRange = { start: number; end: number }
+
+export type VideoStorage = {
+  save: (data: Buffer, metadata: NewVideoMetadata) => Promise<StoredVideoMetadata>
+  getMetadata: (id: string) => Promise<StoredVideoMetadata | null>
+  // Range is inclusive on both ends, matching HTTP Range semantics
+  openReadStream: (id: string, range?: ByteRange) => Promise<Readable>
+}
+
+const VIDEO_ID_PATTERN = /^[a-f0-9]{64}$/
+
+const extensionFor = (contentType: string) =>
+  contentType.includes('webm') ? 'webm' : 'mp4'
+
+/**
+ * Local disk storage: <dir>/<sha256>.<ext> plus <dir>/<sha256>.json
+ */
+export function createLocalVideoStorage(dir: string): VideoStorage {
+  const metadataPath = (id: string) => path.join(dir, `${id}.json`)
+
+  const getMetadata = async (id: string): Promise<StoredVideoMetadata | null> => {
+    // Ids are hashes - refuse anything else so they can't escape the storage directory
+    if (!VIDEO_ID_PATTERN.test(id)) return null
+    try {
+      return JSON.parse(await fs.promises.readFile(metadataPath(id), 'utf8'))
+    } catch {
+      return null
+    }
+  }
+
+  const save = async (data: Buffer, metadata: NewVideoMetadata): Promise<StoredVideoMetadata> => {
+    await fs.promises.mkdir(dir, { recursive: true })
+
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex')
+
+    // Same bytes already stored - keep the first record
+    const existing = await getMetadata(sha256)
+    if (existing) return existing
+
+    const stored: StoredVideoMetadata = {
+      ...metadata,
+      id: sha256,
+      sha256,
+      size: data.length,
+      createdAt: new Date().toISOString(),
+    }
+
+    const videoPath = path.join(dir, `${sha256}.${extensionFor(metadata.contentType)}`)
+    await fs.promises.writeFile(videoPath, data)
+    // Sidecar is written last so a readable sidecar always means a complete video
+    await fs.promises.writeFile(metadataPath(sha256), JSON.stringify(stored, null, 2))
+
+    return stored
+  }
+
+  const openReadStream = async (id: string, range?: ByteRange): Promise<Readable> => {
+    const metadata = await getMetadata(id)
+    if (!metadata) {
+      throw new Error(`Video not found: ${id}`)
+    }
+    const videoPath = path.join(dir, `${id}.${extensionFor(metadata.contentType)}`)
+    return fs.createReadStream(videoPath, range)
+  }
+
+  return { save, getMetadata, openReadStream }
+}
+
+export const videoStorage: VideoStorage = createLocalVideoStorage(VIDEO_STORAGE_DIR)
@@ -0,0 +1,57 @@
+// src/lib/usage.ts
+// Per-key usage accounting since server start - requests, generations and browser time
+
+export type KeyUsage = {
+  keyId: string
+  keyName: string
+  requests: number
+  generations: number
+  videosProduced: number
+  failures: number
+  browserSeconds: number
+  lastUsedAt?: string
+}
+
+export type GenerationUsage = {
+  videosProduced: number
+  failed: boolean
+  browserSeconds: number
+}
+
+const usage = new Map<string, KeyUsage>()
+const trackingSince = new Date().toISOString()
+
+function usageFor(keyId: string, keyName: string): KeyUsage {
+  let entry = usage.get(keyId)
+  if (!entry) {
+    entry = { keyId, keyName, requests: 0, generations: 0, videosProduced: 0, failures: 0, browserSeconds: 0 }
+    usage.set(keyId, entry)
+  }
+  // Names can change on rotation/rename; keep the latest
+  entry.keyName = keyName
+  return entry
+}
+
+export function recordRequest(keyId: string, keyName: string) {
+  const entry = usageFor(keyId, keyName)
+  entry.requests++
+  entry.lastUsedAt = new Date().toISOString()
+}
+
+export function recordGenerationUsage(keyId: string, keyName: string, generation: GenerationUsage) {
+  const entry = usageFor(keyId, keyName)
+  entry.generations++
+  entry.videosProduced += generation.videosProduced
+  if (generation.failed) entry.failures++
+  entry.browserSeconds += Math.round(generation.browserSeconds)
+}
+
+/**
+ * Usage for every key, or only the given key
+ */
+export function getUsage(keyId?: string): { since: string; keys: KeyUsage[] } {
+  const keys = keyId
+    ? [usage.get(keyId)].filter((entry): entry is KeyUsage => !!entry)
+    : Array.from(usage.values())
+  return { since: trackingSince, keys }
+}
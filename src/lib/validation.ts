@@ -0,0 +1,659 @@
+// src/lib/validation.ts
+// Request validation for video generation - the JSON Schema is both enforced and published
+// Rules JSON Schema can't express (frame bytes, mode/frame/ingredient combinations) are checked in code below
+
+import Ajv, { type ErrorObject } from 'ajv'
+import type { VideoGenerationOptions } from './playwright-veo'
+import { isValidCallbackUrl } from './webhooks'
+import { hasNonPublicHost } from './outbound'
+import { FRAME_FITS, type FrameFit, type FocalPoint } from './frame-prep'
+import { POLICY_FIELDS, checkPolicyOverrides } from './generation-policy'
+import { checkModel } from './flow-capabilities'
+import { isFlowProjectUrl, FLOW_BASE_URL } from './flow-page'
+
+// Configuration from environment variables
+export const PROMPT_MAX_LENGTH = Number(process.env.PROMPT_MAX_LENGTH) || 2000
+export const FRAME_MAX_BYTES = Number(process.env.FRAME_MAX_BYTES) || 10 * 1024 * 1024
+export const BATCH_MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS) || 50
+// Reference images Flow takes in Ingredients to Video
+export const INGREDIENTS_MAX = Number(process.env.INGREDIENTS_MAX) || 3
+const INGREDIENT_LABEL_MAX_LENGTH = 100
+const PROJECT_NAME_MAX_LENGTH = 100
+
+// Queue priorities a request may ask for - above 0 is reserved for admin keys (see routes/veo)
+const PRIORITY_MIN = -10
+const PRIORITY_MAX = 10
+
+// Image types Flow accepts as frames
+export const FRAME_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+export type ValidationIssue = {
+  field: string
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: ValidationIssue[] }
+
+// Everything POST /api/veo accepts: generation options plus request-level switches
+// Frame files are server-side only - clients send data URLs, remote URLs or multipart parts
+// Extending goes through POST /api/veo/extend instead
+export type GenerationRequest = Omit<
+  VideoGenerationOptions,
+  'downloadVideos' | 'startFramePath' | 'endFramePath' | 'ingredients' | 'extend'
+> & {
+  // Shorthand for projectUrl on the configured Flow site
+  projectId?: string
+  startFrameUrl?: string
+  endFrameUrl?: string
+  ingredients?: IngredientRequest[]
+  fit?: FrameFit
+  focalPoint?: FocalPoint
+  sync?: boolean
+  cancelOnDisconnect?: boolean
+  priority?: number
+  callbackUrl?: string
+}
+
+// One item of POST /api/veo/batch - waiting, priority and callbacks only exist at request level
+export type BatchItemRequest = Omit<GenerationRequest, 'sync' | 'cancelOnDisconnect' | 'priority' | 'callbackUrl'>
+
+// A batch with defaults already merged into every item
+export type BatchRequest = {
+  items: BatchItemRequest[]
+  priority?: number
+}
+
+// One reference image as a client sends it - exactly one of imageBase64 and imageUrl
+export type IngredientRequest = {
+  imageBase64?: string
+  imageUrl?: string
+  label?: string
+}
+
+// A POST /api/veo/extend body - the clip comes from a previous job or a project URL, never both
+export type ExtendRequest = Pick<
+  GenerationRequest,
+  'prompt' | 'model' | 'policy' | 'sync' | 'cancelOnDisconnect' | 'priority' | 'callbackUrl'
+> & {
+  clipIndex?: number
+  profileId?: string
+} & (
+  | { jobId: string; projectUrl?: undefined }
+  | { projectUrl: string; jobId?: undefined }
+)
+
+export type FrameSlot = 'start' | 'end'
+
+export type GenerationRequestContext = {
+  // Multipart bodies carry every field as a string
+  coerceTypes?: boolean
+  // Frames that arrived as multipart file parts
+  uploadedFrames?: FrameSlot[]
+}
+
+const frameProperty = (description: string) => ({
+  type: 'string',
+  description: `${description}. Base64 data URL (${FRAME_MIME_TYPES.join(', ')}), at most ${FRAME_MAX_BYTES} bytes decoded. Only allowed with mode frames-to-video.`,
+  pattern: '^data:image/(png|jpeg|webp);base64,',
+})
+
+const imageDataUrlProperty = {
+  type: 'string',
+  description: `Base64 data URL (${FRAME_MIME_TYPES.join(', ')}), at most ${FRAME_MAX_BYTES} bytes decoded`,
+  pattern: '^data:image/(png|jpeg|webp);base64,',
+}
+
+// Options and requests take the same ingredient list with different image sources
+const ingredientsProperty = (sources: Record<string, unknown>) => ({
+  type: 'array',
+  minItems: 1,
+  maxItems: INGREDIENTS_MAX,
+  description: `Reference images, 1-${INGREDIENTS_MAX}, each with exactly one image source. Only allowed with mode ingredients-to-video.`,
+  items: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      ...sources,
+      label: {
+        type: 'string',
+        minLength: 1,
+        maxLength: INGREDIENT_LABEL_MAX_LENGTH,
+        description: 'Name reported back with the ingredient result',
+      },
+    },
+  },
+})
+
+const optionProperties = {
+  prompt: {
+    type: 'string',
+    description: 'Description of the video to generate',
+    minLength: 1,
+    maxLength: PROMPT_MAX_LENGTH,
+    pattern: '\\S',
+  },
+  aspectRatio: { type: 'string', enum: ['landscape', 'portrait'], default: 'landscape' },
+  mode: {
+    type: 'string',
+    enum: ['text-to-video', 'frames-to-video', 'ingredients-to-video'],
+    default: 'text-to-video',
+    description: 'frames-to-video requires a start and/or end frame (base64, URL or multipart upload); ingredients-to-video requires ingredients',
+  },
+  outputsCount: { type: 'integer', enum: [1, 2, 3, 4], default: 1 },
+  model: {
+    type: 'string',
+    minLength: 1,
+    maxLength: 100,
+    description: 'Veo model as named in GET /api/veo/capabilities. Default: whatever Flow selects for a new project',
+  },
+  startFrameBase64: frameProperty('First frame of the video'),
+  endFrameBase64: frameProperty('Last frame of the video'),
+  projectUrl: {
+    type: 'string',
+    pattern: '^https?://',
+    description: 'Generate in this existing Flow project (see GET /api/veo/projects) instead of a new one',
+  },
+  projectName: {
+    type: 'string',
+    minLength: 1,
+    maxLength: PROJECT_NAME_MAX_LENGTH,
+    description: 'Title for the new project. Not allowed with an existing project',
+  },
+  profileId: {
+    type: 'string',
+    minLength: 1,
+    description: "Browser profile to run on - the one signed in to an existing project's account",
+  },
+  policy: {
+    type: 'object',
+    description: 'Timing and retry overrides for this run, within the bounds from GET /api/veo/policy',
+    additionalProperties: false,
+    properties: Object.fromEntries(POLICY_FIELDS.map(field => [field, { type: 'integer', minimum: 0 }])),
+  },
+}
+
+const frameUrlProperty = (description: string) => ({
+  type: 'string',
+  description: `${description}. Fetched by the server; must serve ${FRAME_MIME_TYPES.join(', ')} of at most ${FRAME_MAX_BYTES} bytes. Only allowed with mode frames-to-video.`,
+  pattern: '^https?://',
+})
+
+export const videoGenerationOptionsSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'VideoGenerationOptions',
+  type: 'object',
+  required: ['prompt'],
+  additionalProperties: false,
+  properties: {
+    ...optionProperties,
+    startFramePath: { type: 'string', minLength: 1 },
+    endFramePath: { type: 'string', minLength: 1 },
+    ingredients: ingredientsProperty({
+      imageBase64: imageDataUrlProperty,
+      imagePath: { type: 'string', minLength: 1 },
+    }),
+    downloadVideos: { type: 'boolean' },
+    extend: {
+      type: 'object',
+      description: 'Continue a clip of an existing project instead of generating in a new one. Only with mode text-to-video and one output',
+      required: ['projectUrl'],
+      additionalProperties: false,
+      properties: {
+        projectUrl: { type: 'string', pattern: '^https?://' },
+        clipUrl: { type: 'string', pattern: '^https?://' },
+        clipIndex: { type: 'integer', minimum: 0 },
+      },
+    },
+  },
+}
+
+export const generationRequestSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'GenerationRequest',
+  type: 'object',
+  required: ['prompt'],
+  additionalProperties: false,
+  properties: {
+    ...optionProperties,
+    projectId: {
+      type: 'string',
+      pattern: '^[A-Za-z0-9_-]+$',
+      description: 'ID of an existing Flow project, as an alternative to projectUrl',
+    },
+    startFrameUrl: frameUrlProperty('URL of the first frame'),
+    endFrameUrl: frameUrlProperty('URL of the last frame'),
+    ingredients: ingredientsProperty({
+      imageBase64: imageDataUrlProperty,
+      imageUrl: {
+        type: 'string',
+        description: `Fetched by the server; must serve ${FRAME_MIME_TYPES.join(', ')} of at most ${FRAME_MAX_BYTES} bytes`,
+        pattern: '^https?://',
+      },
+    }),
+    fit: {
+      type: 'string',
+      enum: FRAME_FITS,
+      default: 'none',
+      description: 'How frames and ingredients are brought to the aspect ratio: none to let Flow crop, crop around focalPoint, or pad with black bars',
+    },
+    focalPoint: {
+      type: 'object',
+      description: "Point to keep in view with fit 'crop', 0-1 from the left and top edges (default centre)",
+      required: ['x', 'y'],
+      additionalProperties: false,
+      properties: {
+        x: { type: 'number', minimum: 0, maximum: 1 },
+        y: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    sync: { type: 'boolean', default: false, description: 'Wait for the result instead of returning 202' },
+    cancelOnDisconnect: {
+      type: 'boolean',
+      default: false,
+      description: 'Cancel the job when the client disconnects while waiting (sync or event stream)',
+    },
+    priority: {
+      type: 'integer',
+      minimum: PRIORITY_MIN,
+      maximum: PRIORITY_MAX,
+      default: 0,
+      description: 'Higher runs first. Above 0 needs an admin key',
+    },
+    callbackUrl: { type: 'string', pattern: '^https?://', description: 'Receives a signed POST when the job finishes' },
+  },
+}
+
+const {
+  sync: _sync,
+  cancelOnDisconnect: _cancelOnDisconnect,
+  priority: _priority,
+  callbackUrl: _callbackUrl,
+  ...batchItemProperties
+} = generationRequestSchema.properties
+
+// Items and defaults share the item fields; prompt may come from either, so it is required after merging
+const batchItemShape = {
+  type: 'object',
+  additionalProperties: false,
+  properties: batchItemProperties,
+}
+
+const batchItemSchema = { ...batchItemShape, $id: 'BatchItem', required: ['prompt'] }
+
+export const batchRequestSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'BatchRequest',
+  type: 'object',
+  required: ['items'],
+  additionalProperties: false,
+  properties: {
+    items: {
+      type: 'array',
+      minItems: 1,
+      maxItems: BATCH_MAX_ITEMS,
+      description: 'One job per item. Each item is merged over defaults and must end up with a prompt',
+      items: batchItemShape,
+    },
+    defaults: { ...batchItemShape, description: 'Fields applied to every item that does not set them' },
+    priority: {
+      ...generationRequestSchema.properties.priority,
+      description: 'Queue priority for every item, higher runs first. Above 0 needs an admin key',
+    },
+  },
+}
+
+export const extendRequestSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'ExtendRequest',
+  type: 'object',
+  required: ['prompt'],
+  additionalProperties: false,
+  properties: {
+    jobId: { type: 'string', minLength: 1, description: 'Job whose clip to extend. Send this or projectUrl' },
+    projectUrl: {
+      type: 'string',
+      pattern: '^https?://',
+      description: 'Flow project holding the clip to extend. Send this or jobId',
+    },
+    clipIndex: {
+      type: 'integer',
+      minimum: 0,
+      default: 0,
+      description: "Which clip: an index into the job's videoUrls, or into the project's clips in page order",
+    },
+    prompt: { ...optionProperties.prompt, description: 'What happens next in the scene' },
+    model: optionProperties.model,
+    policy: optionProperties.policy,
+    profileId: {
+      type: 'string',
+      minLength: 1,
+      description: "Browser profile signed in to the project's account. Defaults to the job's profile with jobId",
+    },
+    sync: generationRequestSchema.properties.sync,
+    cancelOnDisconnect: generationRequestSchema.properties.cancelOnDisconnect,
+    priority: generationRequestSchema.properties.priority,
+    callbackUrl: generationRequestSchema.properties.callbackUrl,
+  },
+}
+
+const ajv = new Ajv({ allErrors: true })
+const checkOptions = ajv.compile(videoGenerationOptionsSchema)
+const checkRequest = ajv.compile(generationRequestSchema)
+const checkBatch = ajv.compile(batchRequestSchema)
+const checkBatchItem = ajv.compile(batchItemSchema)
+const checkExtend = ajv.compile(extendRequestSchema)
+// Same schema, but converts "2" to 2 and "true" to true in place
+const checkRequestCoerced = new Ajv({ allErrors: true, coerceTypes: true }).compile(generationRequestSchema)
+
+// Magic bytes per declared MIME type
+const FRAME_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  'image/png': data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/jpeg': data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  'image/webp': data => data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP',
+}
+
+// Turn Ajv errors into one issue per offending field
+// Nested fields read as items.0.prompt rather than JSON Pointer
+const fieldName = (instancePath: string, property?: string) =>
+  [instancePath.slice(1).replace(/\//g, '.'), property].filter(Boolean).join('.')
+
+function toIssues(errors: ErrorObject[] | null | undefined): ValidationIssue[] {
+  return (errors || []).map(error => {
+    if (error.keyword === 'required') {
+      return { field: fieldName(error.instancePath, error.params.missingProperty), message: 'is required' }
+    }
+    if (error.keyword === 'additionalProperties') {
+      return { field: fieldName(error.instancePath, error.params.additionalProperty), message: 'is not a recognized field' }
+    }
+    if (error.keyword === 'enum') {
+      return { field: fieldName(error.instancePath), message: `must be one of: ${error.params.allowedValues.join(', ')}` }
+    }
+    if (error.keyword === 'pattern' && error.instancePath.endsWith('/prompt')) {
+      return { field: fieldName(error.instancePath), message: 'must not be blank' }
+    }
+    if (error.keyword === 'pattern' && /(FrameBase64|\/imageBase64)$/.test(error.instancePath)) {
+      return { field: fieldName(error.instancePath), message: `must be a base64 data URL of type ${FRAME_MIME_TYPES.join(', ')}` }
+    }
+    if (error.keyword === 'pattern' && /(FrameUrl|\/imageUrl|projectUrl|clipUrl)$/.test(error.instancePath)) {
+      return { field: fieldName(error.instancePath), message: 'must be an http(s) URL' }
+    }
+    if (error.keyword === 'pattern' && error.instancePath.endsWith('/projectId')) {
+      return { field: fieldName(error.instancePath), message: 'must be a Flow project ID (letters, digits, - and _)' }
+    }
+    return { field: fieldName(error.instancePath) || '(body)', message: error.message || 'is invalid' }
+  })
+}
+
+/**
+ * Check decoded frame bytes against the declared type and size limit
+ * Returns a problem description, or null when the frame is acceptable
+ */
+export function checkFrameBytes(data: Buffer, mimeType: string): string | null {
+  if (data.length === 0) {
+    return 'is empty'
+  }
+  if (data.length > FRAME_MAX_BYTES) {
+    return `is ${data.length} bytes, larger than the ${FRAME_MAX_BYTES} byte limit`
+  }
+  if (!FRAME_SIGNATURES[mimeType]?.(data)) {
+    return `content is not a valid ${mimeType} image`
+  }
+  return null
+}
+
+/**
+ * Decode a frame data URL and check its bytes
+ */
+function checkFrame(field: string, dataUrl: string): ValidationIssue | null {
+  const matches = dataUrl.match(/^data:(image\/\w+);base64,(.*)$/s)
+  // Wrong prefix or type is already reported by the schema pattern
+  if (!matches || !FRAME_MIME_TYPES.includes(matches[1])) return null
+
+  const [, mimeType, base64] = matches
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    return { field, message: 'contains invalid base64 characters' }
+  }
+
+  const problem = checkFrameBytes(Buffer.from(base64, 'base64'), mimeType)
+  return problem ? { field, message: problem } : null
+}
+
+// Every field that can supply a frame, per slot
+const FRAME_SOURCES: Record<FrameSlot, string[]> = {
+  start: ['startFrameBase64', 'startFrameUrl', 'startFramePath'],
+  end: ['endFrameBase64', 'endFrameUrl', 'endFramePath'],
+}
+
+// Every field that can supply an ingredient's image
+const INGREDIENT_SOURCES = ['imageBase64', 'imageUrl', 'imagePath']
+
+// Modes that upload images, and so take the framing options
+const IMAGE_MODES = ['frames-to-video', 'ingredients-to-video']
+
+// Cross-field and content checks shared by both entry points
+function checkSemantics(input: Record<string, unknown>, uploadedFrames: FrameSlot[] = []): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const mode = input.mode || 'text-to-video'
+  let frameCount = 0
+
+  for (const slot of ['start', 'end'] as const) {
+    const fields = FRAME_SOURCES[slot].filter(field => input[field] !== undefined)
+    if (uploadedFrames.includes(slot)) fields.push(`${slot}Frame`)
+    if (fields.length === 0) continue
+
+    frameCount++
+    const field = fields[0]
+
+    if (mode !== 'frames-to-video') {
+      issues.push({ field, message: 'is only allowed with mode frames-to-video' })
+      continue
+    }
+    if (fields.length > 1) {
+      issues.push({ field, message: `conflicts with ${fields.slice(1).join(', ')} - send one ${slot} frame` })
+      continue
+    }
+    if (field.endsWith('Base64') && typeof input[field] === 'string') {
+      const issue = checkFrame(field, input[field] as string)
+      if (issue) issues.push(issue)
+    }
+  }
+
+  if (input.ingredients !== undefined && mode !== 'ingredients-to-video') {
+    issues.push({ field: 'ingredients', message: 'is only allowed with mode ingredients-to-video' })
+  } else if (Array.isArray(input.ingredients)) {
+    input.ingredients.forEach((ingredient, index) => {
+      if (!isObject(ingredient)) return
+      const field = `ingredients.${index}`
+      const sources = INGREDIENT_SOURCES.filter(source => ingredient[source] !== undefined)
+
+      if (sources.length === 0) {
+        issues.push({ field, message: 'needs an image: imageBase64 or imageUrl' })
+      } else if (sources.length > 1) {
+        issues.push({ field: `${field}.${sources[0]}`, message: `conflicts with ${sources.slice(1).join(', ')} - send one image per ingredient` })
+      } else if (sources[0] === 'imageBase64' && typeof ingredient.imageBase64 === 'string') {
+        const issue = checkFrame(`${field}.imageBase64`, ingredient.imageBase64)
+        if (issue) issues.push(issue)
+      }
+    })
+  }
+
+  // Framing options only apply to uploaded images
+  for (const field of ['fit', 'focalPoint']) {
+    if (input[field] !== undefined && !IMAGE_MODES.includes(mode as string)) {
+      issues.push({ field, message: `is only allowed with modes ${IMAGE_MODES.join(' and ')}` })
+    }
+  }
+
+  if (input.focalPoint !== undefined && input.fit !== 'crop') {
+    issues.push({ field: 'focalPoint', message: "only applies with fit 'crop'" })
+  }
+
+  if (mode === 'frames-to-video' && frameCount === 0) {
+    issues.push({ field: 'mode', message: 'frames-to-video requires a start or end frame' })
+  }
+  if (mode === 'ingredients-to-video' && input.ingredients === undefined) {
+    issues.push({ field: 'mode', message: 'ingredients-to-video requires at least one ingredient' })
+  }
+
+  const projectFields = ['projectUrl', 'projectId'].filter(field => input[field] !== undefined)
+  if (projectFields.length > 1) {
+    issues.push({ field: 'projectUrl', message: 'conflicts with projectId - name the project one way' })
+  }
+  if (input.extend !== undefined && projectFields.length > 0) {
+    issues.push({ field: projectFields[0], message: "is not allowed with extend - the clip's project is used" })
+  }
+  if (input.projectName !== undefined && (projectFields.length > 0 || input.extend !== undefined)) {
+    issues.push({ field: 'projectName', message: 'only names new projects - leave it out when using an existing one' })
+  }
+  const targetIssue = checkProjectUrl('projectUrl', input.projectUrl)
+  if (targetIssue) issues.push(targetIssue)
+
+  if (isObject(input.extend)) {
+    if (mode !== 'text-to-video') {
+      issues.push({ field: 'extend', message: 'is only allowed with mode text-to-video' })
+    }
+    if (input.outputsCount !== undefined && input.outputsCount !== 1) {
+      issues.push({ field: 'outputsCount', message: 'must be 1 when extending a clip' })
+    }
+    if (input.extend.clipUrl !== undefined && input.extend.clipIndex !== undefined) {
+      issues.push({ field: 'extend.clipUrl', message: 'conflicts with extend.clipIndex - name the clip one way' })
+    }
+    const projectIssue = checkProjectUrl('extend.projectUrl', input.extend.projectUrl)
+    if (projectIssue) issues.push(projectIssue)
+  }
+
+  const modelIssue = checkModel(input.model)
+  if (modelIssue) issues.push(modelIssue)
+
+  if (isObject(input.policy)) {
+    issues.push(...checkPolicyOverrides(input.policy))
+  }
+
+  return issues
+}
+
+// The schema pattern only checks the scheme; the URL must also be a project of the configured Flow site
+function checkProjectUrl(field: string, url: unknown): ValidationIssue | null {
+  if (typeof url !== 'string' || !/^https?:\/\//.test(url) || isFlowProjectUrl(url)) return null
+  return { field, message: `must be a Flow project URL (${FLOW_BASE_URL}project/...)` }
+}
+
+const isObject = (input: unknown): input is Record<string, unknown> =>
+  !!input && typeof input === 'object' && !Array.isArray(input)
+
+// One issue per field is enough to act on (e.g. an empty prompt fails both minLength and pattern)
+const uniqueIssues = (issues: ValidationIssue[]) =>
+  issues.filter((issue, index) => issues.findIndex(other => other.field === issue.field) === index)
+
+function validate<T>(check: typeof checkOptions, input: unknown, uploadedFrames?: FrameSlot[]): ValidationResult<T> {
+  const errors = check(input) ? [] : toIssues(check.errors)
+
+  if (isObject(input)) {
+    errors.push(...checkSemantics(input, uploadedFrames))
+  }
+
+  const unique = uniqueIssues(errors)
+  return unique.length > 0 ? { valid: false, errors: unique } : { valid: true, value: input as T }
+}
+
+/**
+ * Validate options passed to generateVideoViaPlaywright
+ */
+export function validateGenerationOptions(input: unknown): ValidationResult<VideoGenerationOptions> {
+  return validate<VideoGenerationOptions>(checkOptions, input)
+}
+
+/**
+ * Validate a POST /api/veo body
+ */
+export function validateGenerationRequest(
+  input: unknown,
+  context: GenerationRequestContext = {}
+): ValidationResult<GenerationRequest> {
+  const check = context.coerceTypes ? checkRequestCoerced : checkRequest
+  const result = validate<GenerationRequest>(check, input, context.uploadedFrames)
+  return withCallbackUrlCheck(result, input)
+}
+
+/**
+ * Validate a POST /api/veo/extend body
+ * Whether jobId names a job with a clip is checked by the route
+ */
+export function validateExtendRequest(input: unknown): ValidationResult<ExtendRequest> {
+  const result = validate<ExtendRequest>(checkExtend, input)
+  const issues: ValidationIssue[] = []
+
+  if (isObject(input)) {
+    if (input.jobId === undefined && input.projectUrl === undefined) {
+      issues.push({ field: 'jobId', message: 'or projectUrl is required' })
+    } else if (input.jobId !== undefined && input.projectUrl !== undefined) {
+      issues.push({ field: 'jobId', message: "conflicts with projectUrl - extend a job's clip or a project's clip" })
+    }
+  }
+
+  const checked = withCallbackUrlCheck(result, input)
+  if (issues.length === 0) return checked
+  return { valid: false, errors: uniqueIssues([...(checked.valid ? [] : checked.errors), ...issues]) }
+}
+
+// The schema pattern only checks the scheme; make sure the rest parses as a URL and doesn't
+// name a local host outright - other non-public hosts are refused when the delivery resolves them
+function withCallbackUrlCheck<T>(result: ValidationResult<T>, input: unknown): ValidationResult<T> {
+  const callbackUrl = isObject(input) ? input.callbackUrl : undefined
+  if (typeof callbackUrl !== 'string' || !/^https?:\/\//.test(callbackUrl)) return result
+
+  const message = !isValidCallbackUrl(callbackUrl) ? 'must be a valid http(s) URL'
+    : hasNonPublicHost(callbackUrl) ? 'must point to a public host'
+    : undefined
+  if (message) {
+    const issue = { field: 'callbackUrl', message }
+    return result.valid ? { valid: false, errors: [issue] } : { valid: false, errors: [...result.errors, issue] }
+  }
+  return result
+}
+
+/**
+ * Validate a POST /api/veo/batch body and merge defaults into every item
+ * Item issues are reported as items.<index>.<field>
+ */
+export function validateBatchRequest(input: unknown): ValidationResult<BatchRequest> {
+  const requestErrors = checkBatch(input) ? [] : toIssues(checkBatch.errors)
+  const itemErrors: ValidationIssue[] = []
+  const items: BatchItemRequest[] = []
+
+  if (isObject(input) && Array.isArray(input.items)) {
+    const defaults = isObject(input.defaults) ? input.defaults : {}
+    // A bad default is reported once as defaults.<field>, not again for every item inheriting it
+    const badDefaults = requestErrors
+      .filter(issue => issue.field.startsWith('defaults.'))
+      .map(issue => issue.field.split('.')[1])
+
+    input.items.forEach((item, index) => {
+      if (!isObject(item)) return
+      const merged = { ...defaults, ...item }
+      const result = validate<BatchItemRequest>(checkBatchItem, merged)
+      if (result.valid) {
+        items.push(result.value)
+        return
+      }
+      const own = result.errors.filter(issue => !badDefaults.includes(issue.field.split('.')[0]) || issue.field in item)
+      itemErrors.push(...own.map(issue => ({ ...issue, field: `items.${index}.${issue.field}` })))
+    })
+  }
+
+  // Item issues go first so they win deduplication - they carry the friendlier messages
+  const unique = uniqueIssues([...itemErrors, ...requestErrors])
+  if (unique.length > 0) {
+    return { valid: false, errors: unique }
+  }
+  return { valid: true, value: { items, priority: (input as { priority?: number }).priority } }
+}
+
+/**
+ * One-line summary of validation issues, for logs and error strings
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.field} ${issue.message}`).join('; ')
+}
@@ -0,0 +1,129 @@
+// src/lib/webhooks.ts
+// Signed webhook delivery with exponential backoff - used to notify clients when a job finishes
+
+import crypto from 'crypto'
+import { requestPublicUrl } from './outbound'
+
+// Configuration from environment variables
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || ''
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5
+const WEBHOOK_BASE_DELAY_MS = Number(process.env.WEBHOOK_BASE_DELAY_MS) || 2000
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export type WebhookAttempt = {
+  attempt: number
+  timestamp: string
+  durationMs: number
+  statusCode?: number
+  error?: string
+}
+
+export type WebhookDelivery = {
+  url: string
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: WebhookAttempt[]
+}
+
+export type WebhookOptions = {
+  secret?: string
+  maxAttempts?: number
+  baseDelayMs?: number
+  timeoutMs?: number
+}
+
+/**
+ * Compute the signature header value for a payload
+ * Receivers recompute HMAC-SHA256 over `${timestamp}.${body}` with the shared secret
+ */
+export function signWebhookPayload(body: string, timestamp: string, secret: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * Whether deliveries carry an X-Webhook-Signature - without WEBHOOK_SECRET receivers can't tell them from forgeries
+ */
+export function isWebhookSigningEnabled(): boolean {
+  return WEBHOOK_SECRET !== ''
+}
+
+/**
+ * POST a JSON payload, retrying non-2xx responses and network errors with exponential backoff
+ * Attempts are appended to `delivery` as they happen, so callers can expose it while in flight
+ * Only public addresses are reached - see lib/outbound
+ */
+export async function deliverWebhook(
+  delivery: WebhookDelivery,
+  payload: unknown,
+  options: WebhookOptions = {}
+): Promise<WebhookDelivery> {
+  const {
+    secret = WEBHOOK_SECRET,
+    maxAttempts = WEBHOOK_MAX_ATTEMPTS,
+    baseDelayMs = WEBHOOK_BASE_DELAY_MS,
+    timeoutMs = WEBHOOK_TIMEOUT_MS,
+  } = options
+
+  const body = JSON.stringify(payload)
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000))
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'aulexx-api-webhook',
+      'X-Webhook-Timestamp': timestamp,
+    }
+    if (secret) {
+      headers['X-Webhook-Signature'] = signWebhookPayload(body, timestamp, secret)
+    }
+
+    const startedAt = Date.now()
+    const record: WebhookAttempt = { attempt, timestamp: new Date(startedAt).toISOString(), durationMs: 0 }
+
+    try {
+      // Redirects are not followed - a callback URL must answer itself
+      const response = await requestPublicUrl(delivery.url, { method: 'POST', headers, body, timeoutMs })
+      // Only the status matters; dropping the body frees the connection
+      response.discard()
+      record.statusCode = response.status
+      if (response.status < 200 || response.status >= 300) {
+        record.error = `HTTP ${response.status}`
+      }
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error)
+    }
+
+    record.durationMs = Date.now() - startedAt
+    delivery.attempts.push(record)
+
+    if (!record.error) {
+      delivery.status = 'delivered'
+      console.log(`[Webhook] Delivered to ${delivery.url} (attempt ${attempt})`)
+      return delivery
+    }
+
+    console.log(`[Webhook] Attempt ${attempt}/${maxAttempts} to ${delivery.url} failed: ${record.error}`)
+
+    if (attempt < maxAttempts) {
+      await sleep(baseDelayMs * 2 ** (attempt - 1))
+    }
+  }
+
+  delivery.status = 'failed'
+  return delivery
+}
+
+/**
+ * Only plain http(s) URLs are accepted as callback targets
+ */
+export function isValidCallbackUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
@@ -1,24 +1,52 @@
 import { Request, Response, NextFunction } from 'express'
+import { findApiKey, type ApiKeyInfo, type ApiKeyScope } from '../lib/api-keys'
+import { recordRequest } from '../lib/usage'
+import { AuthError } from '../lib/errors'
+import { sendError } from './errors'
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by apiKeyAuth for every authenticated request
+      apiKey?: ApiKeyInfo
+    }
+  }
+}
 
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction): void {
-  const API_KEY = process.env.API_KEY || 'default-api-key-change-me'
-  
-  const apiKey = req.headers['x-api-key'] as string || 
+  const apiKey = req.headers['x-api-key'] as string ||
                  (req.headers['authorization'] as string)?.replace('Bearer ', '')
 
-  console.log(`[Auth] Checking API key: ${apiKey ? apiKey.substring(0, 8) + '...' : 'missing'}`)
-  console.log(`[Auth] Expected key: ${API_KEY.substring(0, 8)}...`)
-
   if (!apiKey) {
-    res.status(401).json({ error: 'API key required. Use header: x-api-key or Authorization: Bearer <key>' })
+    console.log(`[Auth] Missing API key for ${req.method} ${req.originalUrl}`)
+    sendError(res, new AuthError('AUTH_REQUIRED'))
     return
   }
 
-  if (apiKey !== API_KEY) {
-    res.status(403).json({ error: 'Invalid API key' })
+  const key = findApiKey(apiKey)
+
+  if (!key) {
+    console.log(`[Auth] Rejected unknown or disabled key for ${req.method} ${req.originalUrl}`)
+    sendError(res, new AuthError('AUTH_INVALID'))
     return
   }
 
+  console.log(`[Auth] ${key.name}: ${req.method} ${req.originalUrl}`)
+  req.apiKey = key
+  recordRequest(key.id, key.name)
   next()
 }
 
+/**
+ * Allow the request only if the authenticated key has the given scope
+ * Must run after apiKeyAuth
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiKey?.scopes.includes(scope)) {
+      sendError(res, new AuthError('FORBIDDEN', `API key lacks required scope: ${scope}`))
+      return
+    }
+    next()
+  }
+}
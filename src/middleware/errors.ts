@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express'
+import { toApiError, ValidationError, PayloadTooLargeError, type ApiError } from '../lib/errors'
+
+/**
+ * Answer with an error's status and client-safe body
+ * Unexpected errors are logged with their stack; clients only see the generic message
+ */
+export function sendError(res: Response, error: unknown): void {
+  const apiError = toApiError(error)
+
+  if (apiError.code === 'INTERNAL_ERROR' && apiError.cause !== undefined) {
+    console.error('[API] Internal error:', apiError.cause)
+  }
+
+  if (typeof apiError.extra.retryAfterSeconds === 'number') {
+    res.setHeader('Retry-After', String(apiError.extra.retryAfterSeconds))
+  }
+  res.status(apiError.status).json(apiError.toBody())
+}
+
+// body-parser failures carry a type and status instead of being ApiErrors
+function fromBodyParser(error: unknown): ApiError | undefined {
+  const type = (error as { type?: string } | undefined)?.type
+  if (type === 'entity.parse.failed') return new ValidationError('Request body is not valid JSON')
+  if (type === 'entity.too.large') return new PayloadTooLargeError()
+  return undefined
+}
+
+/**
+ * Last-resort Express error handler - keeps stack traces out of responses
+ */
+export function errorHandler(error: unknown, _req: Request, res: Response, next: NextFunction): void {
+  if (res.headersSent) {
+    next(error)
+    return
+  }
+  sendError(res, fromBodyParser(error) || error)
+}
@@ -0,0 +1,85 @@
+import express, { Request, Response, NextFunction } from 'express'
+import multer from 'multer'
+import os from 'os'
+import path from 'path'
+import { FRAME_MAX_BYTES, FRAME_MIME_TYPES } from '../lib/validation'
+import { tempFramePath, removeFrameFiles } from '../lib/frames'
+import { ValidationError, PayloadTooLargeError } from '../lib/errors'
+import { sendError } from './errors'
+
+// Inline base64 frames still arrive as JSON, so generation requests keep a larger body limit
+// than the rest of the API
+const GENERATION_JSON_LIMIT = process.env.GENERATION_JSON_LIMIT || '30mb'
+
+export const FRAME_UPLOAD_FIELDS = ['startFrame', 'endFrame'] as const
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: os.tmpdir(),
+    filename: (_req, file, cb) => cb(null, path.basename(tempFramePath(file.mimetype))),
+  }),
+  limits: {
+    fileSize: FRAME_MAX_BYTES,
+    files: FRAME_UPLOAD_FIELDS.length,
+    fields: 20,
+  },
+  fileFilter: (_req, file, cb) => {
+    if (!FRAME_MIME_TYPES.includes(file.mimetype)) {
+      cb(new Error(`${file.fieldname} has content type "${file.mimetype}", expected one of: ${FRAME_MIME_TYPES.join(', ')}`))
+      return
+    }
+    cb(null, true)
+  },
+}).fields(FRAME_UPLOAD_FIELDS.map(name => ({ name, maxCount: 1 })))
+
+const jsonBody = express.json({ limit: GENERATION_JSON_LIMIT })
+
+/**
+ * Files uploaded for this request, keyed by field name
+ */
+export function uploadedFrameFiles(req: Request): Record<string, Express.Multer.File[]> {
+  return (req.files && !Array.isArray(req.files)) ? req.files : {}
+}
+
+/**
+ * Parse a JSON generation body with the larger generation limit, answering parse errors as JSON
+ */
+export function parseGenerationJson(req: Request, res: Response, next: NextFunction): void {
+  jsonBody(req, res, (error?: unknown) => {
+    if (!error) {
+      next()
+      return
+    }
+
+    const status = (error as { status?: number }).status || 400
+    sendError(res, status === 413
+      ? new PayloadTooLargeError(`Request body is larger than the ${GENERATION_JSON_LIMIT} limit`)
+      : new ValidationError('Request body is not valid JSON'))
+  })
+}
+
+/**
+ * Parse a generation request body: multipart/form-data with frame file parts, or JSON
+ * Uploaded frames land in the temp directory that uploadFrame reads from
+ */
+export function parseGenerationBody(req: Request, res: Response, next: NextFunction): void {
+  if (req.is('multipart/form-data')) {
+    upload(req, res, (error: unknown) => {
+      if (!error) {
+        next()
+        return
+      }
+
+      const files = Object.values(uploadedFrameFiles(req)).flat()
+      void removeFrameFiles(files.map(file => file.path))
+
+      const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+      sendError(res, tooLarge
+        ? new PayloadTooLargeError(`Frame file is larger than the ${FRAME_MAX_BYTES} byte limit`)
+        : new ValidationError(error instanceof Error ? error.message : 'Invalid multipart body'))
+    })
+    return
+  }
+
+  parseGenerationJson(req, res, next)
+}
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express'
+import { createTokenBucketLimiter, type RateLimiter, type RateLimitResult } from '../lib/rate-limit'
+import { RateLimitError } from '../lib/errors'
+import { sendError } from './errors'
+
+// Configuration from environment variables
+const RATE_LIMIT_REQUESTS_PER_MINUTE = Number(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE) || 60
+const RATE_LIMIT_GENERATIONS_PER_DAY = Number(process.env.RATE_LIMIT_GENERATIONS_PER_DAY) || 100
+const RATE_LIMIT_IP_REQUESTS_PER_MINUTE = Number(process.env.RATE_LIMIT_IP_REQUESTS_PER_MINUTE) || 30
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+const requestLimiter = createTokenBucketLimiter({ capacity: RATE_LIMIT_REQUESTS_PER_MINUTE, windowMs: MINUTE_MS })
+const generationLimiter = createTokenBucketLimiter({ capacity: RATE_LIMIT_GENERATIONS_PER_DAY, windowMs: DAY_MS })
+const ipLimiter = createTokenBucketLimiter({ capacity: RATE_LIMIT_IP_REQUESTS_PER_MINUTE, windowMs: MINUTE_MS })
+
+// IETF RateLimit header fields - a later limiter on the same request overwrites an earlier one
+function setRateLimitHeaders(res: Response, result: RateLimitResult) {
+  res.setHeader('RateLimit-Limit', String(result.limit))
+  res.setHeader('RateLimit-Remaining', String(result.remaining))
+  res.setHeader('RateLimit-Reset', String(result.resetSeconds))
+}
+
+// Take cost tokens from the key's bucket - false once a 429 has been sent
+function charge(limiter: RateLimiter, key: string, cost: number, message: string, res: Response): boolean {
+  const result = limiter.take(key, cost)
+  setRateLimitHeaders(res, result)
+
+  if (!result.allowed) {
+    console.log(`[RateLimit] ${key}: ${message}`)
+    sendError(res, new RateLimitError('RATE_LIMITED', message, result.retryAfterSeconds))
+    return false
+  }
+  return true
+}
+
+function rateLimit(limiter: RateLimiter, keyFor: (req: Request) => string, message: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (charge(limiter, keyFor(req), 1, message, res)) next()
+  }
+}
+
+// Authenticated requests are limited per key, falling back to the client IP
+const keyOrIp = (req: Request) => req.apiKey ? `key:${req.apiKey.id}` : `ip:${req.ip}`
+
+/**
+ * Per-IP limit for routes that don't require an API key
+ */
+export const ipRateLimit = rateLimit(ipLimiter, req => `ip:${req.ip}`, 'Too many requests')
+
+/**
+ * Requests per minute per API key - must run after apiKeyAuth
+ */
+export const keyRateLimit = rateLimit(requestLimiter, keyOrIp, 'Too many requests for this API key')
+
+/**
+ * Charge generations per day per API key - call right before queueing, once every other check has passed,
+ * with the number of generations the request runs (one per batch item), so rejected requests cost nothing
+ * Answers 429 and returns false when the daily limit is reached
+ */
+export function chargeGenerations(req: Request, res: Response, count = 1): boolean {
+  return charge(generationLimiter, keyOrIp(req), count, 'Daily generation limit reached for this API key', res)
+}
+
+/**
+ * Give back generations charged for a request the queue then turned away
+ */
+export function refundGenerations(req: Request, res: Response, count = 1) {
+  setRateLimitHeaders(res, generationLimiter.refund(keyOrIp(req), count))
+}
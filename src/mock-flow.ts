@@ -0,0 +1,105 @@
+import express, { Request, Response } from 'express'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+// Offline stand-in for Google Labs Flow: npm run mock-flow, then start the API with
+// FLOW_BASE_URL=http://localhost:4100/fx/tools/flow/ so the real automation drives this page.
+// Prompt markers ([fail], [policy], [quota], [hang]) are described in mock-flow/project.html
+// Projects live in memory, so reopening one shows its clips and scene until the mock restarts
+
+const PORT = Number(process.env.MOCK_FLOW_PORT) || 4100
+// How long an output takes before it turns into a video or a failed tile
+const GENERATION_MS = Number(process.env.MOCK_FLOW_GENERATION_MS) || 5000
+// Show a signed-out landing page instead of redirecting to a project
+const SIGNED_OUT = process.env.MOCK_FLOW_SIGNED_OUT === 'true'
+
+const PROJECT_PAGE = path.join(__dirname, '../mock-flow/project.html')
+
+type MockClip = {
+  src: string
+  prompt: string
+  model: string
+  aspect: string
+}
+
+type MockProject = {
+  id: string
+  name: string
+  createdAt: string
+  clips: MockClip[]
+  // Clip sources on the scene timeline, in order
+  scene: string[]
+}
+
+const projects = new Map<string, MockProject>()
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+// The tool's home: a New project button and a card per project, newest first
+function homePage(notice?: string) {
+  const cards = Array.from(projects.values()).reverse()
+    .map(project => `<li><a href="/fx/tools/flow/project/${project.id}">${escapeHtml(project.name)}<br /><small>${project.createdAt}</small></a></li>`)
+  return `<!DOCTYPE html><title>Flow (mock)</title><h1>Flow</h1>${notice ? `<p role="alert">${notice}</p>` : ''}
+<button onclick="location.href = '/fx/tools/flow/new'">New project</button>
+<ul>${cards.join('')}</ul>`
+}
+
+const app = express()
+
+// Like Flow, the tool opens on the project list; unknown projects land back here
+app.get('/fx/tools/flow/', (req: Request, res: Response) => {
+  if (SIGNED_OUT) {
+    res.send('<!DOCTYPE html><title>Flow (mock)</title><h1>Flow</h1><button>Sign in</button>')
+    return
+  }
+  res.send(homePage(req.query.missing ? 'Project not found' : undefined))
+})
+
+app.get('/fx/tools/flow/new', (_req: Request, res: Response) => {
+  const project: MockProject = {
+    id: crypto.randomUUID(),
+    name: 'Untitled project',
+    createdAt: new Date().toISOString(),
+    clips: [],
+    scene: [],
+  }
+  projects.set(project.id, project)
+  res.redirect(`/fx/tools/flow/project/${project.id}`)
+})
+
+app.get('/fx/tools/flow/project/:id', (req: Request, res: Response) => {
+  const project = projects.get(req.params.id)
+  if (!project) {
+    res.redirect('/fx/tools/flow/?missing=1')
+    return
+  }
+  // Read on every request so edits to the page show up without a restart
+  const html = fs.readFileSync(PROJECT_PAGE, 'utf8')
+    .replace('__MOCK_CONFIG__', JSON.stringify({ generationMs: GENERATION_MS, project }))
+  res.type('html').send(html)
+})
+
+// The page saves its title, clips and scene after every change
+app.post('/fx/tools/flow/project/:id/state', express.json(), (req: Request, res: Response) => {
+  const project = projects.get(req.params.id)
+  if (!project) {
+    res.sendStatus(404)
+    return
+  }
+  project.name = typeof req.body.name === 'string' && req.body.name.trim() ? req.body.name.trim() : project.name
+  project.clips = Array.isArray(req.body.clips) ? req.body.clips : project.clips
+  project.scene = Array.isArray(req.body.scene) ? req.body.scene : project.scene
+  res.sendStatus(204)
+})
+
+// Stand-in video bytes - enough for the download step, not a playable file
+app.get('/ai-sandbox-videofx/video/:name', (req: Request, res: Response) => {
+  res.type('video/mp4').send(Buffer.from(`mock video ${req.params.name}`))
+})
+
+app.listen(PORT, () => {
+  console.log(`[Mock Flow] Running on http://localhost:${PORT}/fx/tools/flow/`)
+  console.log(`[Mock Flow] Outputs finish after ${GENERATION_MS}ms${SIGNED_OUT ? ', signed out' : ''}`)
+})
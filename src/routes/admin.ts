@@ -0,0 +1,132 @@
+import { Router, Request, Response } from 'express'
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  type ApiKeyScope,
+} from '../lib/api-keys'
+import { listBrowserProfiles, resetBrowserProfile } from '../lib/browser-pool'
+import { loadFlowSelectors, getFlowSelectors, SELECTOR_CONTEXTS } from '../lib/flow-selectors'
+import { startRelogin, checkFlowSelectors } from '../lib/playwright-veo'
+import { ApiError, ValidationError, NotFoundError, ConflictError } from '../lib/errors'
+import { sendError } from '../middleware/errors'
+
+const router = Router()
+
+router.get('/keys', (_req: Request, res: Response) => {
+  res.json({ keys: listApiKeys() })
+})
+
+router.post('/keys', (req: Request, res: Response) => {
+  const { name, scopes, dailyQuota } = req.body
+
+  if (!name || typeof name !== 'string') {
+    sendError(res, new ValidationError('Missing required parameter: name'))
+    return
+  }
+
+  if (scopes !== undefined && (!Array.isArray(scopes) || scopes.some(s => !API_KEY_SCOPES.includes(s)))) {
+    sendError(res, new ValidationError(`scopes must be an array of: ${API_KEY_SCOPES.join(', ')}`))
+    return
+  }
+
+  if (dailyQuota !== undefined && (!Number.isInteger(dailyQuota) || dailyQuota < 0)) {
+    sendError(res, new ValidationError('dailyQuota must be a non-negative integer'))
+    return
+  }
+
+  const created = createApiKey({ name, scopes: scopes as ApiKeyScope[] | undefined, dailyQuota })
+  console.log(`[Admin] ${req.apiKey?.name} created key "${name}" (${created.record.id})`)
+
+  // The plaintext key is only ever returned here
+  res.status(201).json(created)
+})
+
+router.post('/keys/:id/rotate', (req: Request, res: Response) => {
+  const rotated = rotateApiKey(req.params.id)
+
+  if (!rotated) {
+    sendError(res, new NotFoundError('API key not found'))
+    return
+  }
+
+  console.log(`[Admin] ${req.apiKey?.name} rotated key "${rotated.record.name}"`)
+  res.json(rotated)
+})
+
+router.delete('/keys/:id', (req: Request, res: Response) => {
+  const revoked = revokeApiKey(req.params.id)
+
+  if (!revoked) {
+    sendError(res, new NotFoundError('API key not found'))
+    return
+  }
+
+  console.log(`[Admin] ${req.apiKey?.name} revoked key "${revoked.name}"`)
+  res.json(revoked)
+})
+
+router.get('/profiles', (_req: Request, res: Response) => {
+  res.json(listBrowserProfiles())
+})
+
+router.post('/profiles/:id/reset', (req: Request, res: Response) => {
+  const profile = resetBrowserProfile(req.params.id)
+
+  if (!profile) {
+    sendError(res, new NotFoundError('Browser profile not found'))
+    return
+  }
+
+  console.log(`[Admin] ${req.apiKey?.name} reset browser profile "${profile.id}"`)
+  res.json(profile)
+})
+
+// Opens a visible browser window on the server for the operator to sign in; returns once it is open
+router.post('/profiles/:id/relogin', async (req: Request, res: Response) => {
+  try {
+    const result = await startRelogin(req.params.id)
+
+    if (!result.started) {
+      const failures = {
+        'not-found': new NotFoundError('Browser profile not found'),
+        'in-progress': new ConflictError('A re-login window is already open for this profile'),
+        'busy': new ConflictError('Browser profile is running a generation - try again when it finishes'),
+        'no-profile-dir': new ValidationError('Browser profile has no userDataDir - sign in through its own Chrome instead'),
+        'launch-failed': new ApiError('BROWSER_LAUNCH_FAILED', 'Could not open a visible browser window for re-login'),
+      }
+      sendError(res, failures[result.reason])
+      return
+    }
+
+    console.log(`[Admin] ${req.apiKey?.name} started re-login for browser profile "${result.profile.id}"`)
+    res.status(202).json({ success: true, profileId: result.profile.id, statusUrl: '/api/veo/session' })
+  } catch (error) {
+    sendError(res, error)
+  }
+})
+
+router.get('/selectors', (_req: Request, res: Response) => {
+  res.json({ ...getFlowSelectors(), contexts: SELECTOR_CONTEXTS })
+})
+
+// Re-reads FLOW_SELECTORS_FILE, then opens a new Flow project and reports which selectors resolve
+router.post('/selectors/check', async (req: Request, res: Response) => {
+  try {
+    loadFlowSelectors()
+  } catch (error) {
+    sendError(res, new ValidationError(`Selector overrides are invalid: ${error instanceof Error ? error.message : String(error)}`))
+    return
+  }
+
+  console.log(`[Admin] ${req.apiKey?.name} started a selector check`)
+  try {
+    res.json(await checkFlowSelectors())
+  } catch (error) {
+    sendError(res, error)
+  }
+})
+
+export default router
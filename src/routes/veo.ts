@@ -1,24 +1,385 @@
 import { Router, Request, Response } from 'express'
-import { generateVideoViaPlaywright, type VideoGenerationResult, type VideoGenerationOptions } from '../lib/playwright-veo'
+import { Readable } from 'stream'
+import {
+  discoverFlowCapabilities,
+  listFlowProjects,
+  type VideoGenerationOptions,
+  type IngredientInput,
+  type ExtendTarget,
+} from '../lib/playwright-veo'
+import {
+  validateGenerationRequest,
+  validateBatchRequest,
+  validateExtendRequest,
+  formatValidationIssues,
+  generationRequestSchema,
+  batchRequestSchema,
+  extendRequestSchema,
+  type FrameSlot,
+  type GenerationRequest,
+  type BatchItemRequest,
+  type ValidationIssue,
+} from '../lib/validation'
+import { resolveFrameInput, removeFrameFiles, type FrameFile } from '../lib/frames'
+import { prepareFrame } from '../lib/frame-prep'
+import { videoStorage } from '../lib/storage'
+import { historyStore } from '../lib/history'
+import { hasDailyQuotaRemaining, recordDailyGeneration } from '../lib/api-keys'
+import { getUsage } from '../lib/usage'
+import { requireScope } from '../middleware/auth'
+import { chargeGenerations, refundGenerations } from '../middleware/rate-limit'
+import { parseGenerationBody, parseGenerationJson, uploadedFrameFiles } from '../middleware/frame-upload'
+import { sendError } from '../middleware/errors'
+import { submitBatch, getBatch, cancelBatch } from '../lib/batches'
+import { getSessionStatus, listBrowserProfiles } from '../lib/browser-pool'
+import { getGenerationPolicy } from '../lib/generation-policy'
+import { getCachedCapabilities } from '../lib/flow-capabilities'
+import { flowProjectUrl } from '../lib/flow-page'
+import {
+  ApiError,
+  ValidationError,
+  AuthError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  CancelledError,
+} from '../lib/errors'
+import {
+  submitJob,
+  getJob,
+  listJobs,
+  getQueueStats,
+  subscribeToJob,
+  cancelJob,
+  importProjectClips,
+  FINISHED_JOB_STATES,
+  type Job,
+  type JobState,
+  type SubmitJobResult,
+} from '../lib/jobs'
 
 const router = Router()
 
-router.post('/', async (req: Request, res: Response) => {
+const JOB_STATES: JobState[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled']
+
+// Keep idle SSE connections alive through proxies
+const SSE_HEARTBEAT_MS = 15000
+
+const wantsEventStream = (req: Request) =>
+  (req.headers.accept || '').includes('text/event-stream')
+
+/**
+ * Stream a job's progress as Server-Sent Events
+ * Replays progress so far, then follows live until a terminal result or error event
+ */
+function streamJobEvents(res: Response, job: Job) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  const sendTerminal = (finished: Job) => {
+    if (finished.state === 'succeeded') {
+      send('result', {
+        jobId: finished.id,
+        state: finished.state,
+        videoUrls: finished.videoUrls,
+        projectUrl: finished.projectUrl,
+        finishedAt: finished.finishedAt,
+      })
+    } else {
+      send('error', {
+        jobId: finished.id,
+        state: finished.state,
+        error: finished.error,
+        projectUrl: finished.projectUrl,
+        finishedAt: finished.finishedAt,
+      })
+    }
+  }
+
+  send('state', { jobId: job.id, state: job.state, queuePosition: job.queuePosition })
+  for (const entry of job.progress) {
+    send('progress', entry)
+  }
+
+  if (FINISHED_JOB_STATES.includes(job.state)) {
+    sendTerminal(job)
+    res.end()
+    return
+  }
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS)
+
+  const cleanup = () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  }
+
+  const unsubscribe = subscribeToJob(job.id, event => {
+    switch (event.type) {
+      case 'state':
+        send('state', { jobId: job.id, state: event.state })
+        break
+      case 'progress':
+        send('progress', event.progress)
+        break
+      case 'result':
+      case 'error':
+        sendTerminal(event.job)
+        cleanup()
+        res.end()
+        break
+    }
+  })
+
+  // res 'close' fires on client disconnect; req 'close' fires as soon as the body is read
+  res.on('close', cleanup)
+}
+
+type ResolvedFrames = Partial<Record<FrameSlot, FrameFile>> & {
+  // In request order, each pointing at its temp file
+  ingredients?: IngredientInput[]
+}
+
+// Every temp file a resolveFrames result holds
+const resolvedPaths = (frames: ResolvedFrames) =>
+  [frames.start?.path, frames.end?.path, ...(frames.ingredients || []).map(ingredient => ingredient.imagePath)]
+
+// The request fields that say where frames come from and how to frame them
+type FrameSources = Pick<
+  GenerationRequest,
+  'aspectRatio' | 'startFrameBase64' | 'endFrameBase64' | 'startFrameUrl' | 'endFrameUrl' | 'ingredients' | 'fit' | 'focalPoint'
+>
+
+/**
+ * Turn each frame slot's and ingredient's source (data URL, remote URL or uploaded part) into a temp file,
+ * cropped or padded to the requested aspect ratio
+ * Returns per-field issues instead when any source can't be used; nothing is left on disk in that case
+ */
+async function resolveFrames(
+  request: FrameSources,
+  uploads: Record<string, Express.Multer.File[]> = {}
+): Promise<{ frames: ResolvedFrames } | { errors: ValidationIssue[] }> {
+  const frames: ResolvedFrames = {}
+  const errors: ValidationIssue[] = []
+  const prepOptions = {
+    aspectRatio: request.aspectRatio || 'landscape',
+    fit: request.fit,
+    focalPoint: request.focalPoint,
+  }
+
+  for (const slot of ['start', 'end'] as const) {
+    const upload = uploads[`${slot}Frame`]?.[0]
+    const url = slot === 'start' ? request.startFrameUrl : request.endFrameUrl
+    const dataUrl = slot === 'start' ? request.startFrameBase64 : request.endFrameBase64
+    const field = upload ? `${slot}Frame` : url ? `${slot}FrameUrl` : `${slot}FrameBase64`
+
+    try {
+      const file = await resolveFrameInput({
+        upload: upload && { path: upload.path, mimeType: upload.mimetype },
+        url,
+        dataUrl,
+      })
+      if (!file) continue
+
+      // Tracked before preparing so a frame that fails to decode is still cleaned up
+      frames[slot] = file
+      frames[slot] = await prepareFrame(file, prepOptions)
+    } catch (error) {
+      errors.push({ field, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const ingredients: IngredientInput[] = []
+  if (request.ingredients) frames.ingredients = ingredients
+
+  for (const [index, ingredient] of (request.ingredients || []).entries()) {
+    const field = `ingredients.${index}.${ingredient.imageUrl ? 'imageUrl' : 'imageBase64'}`
+
+    try {
+      const file = await resolveFrameInput({ url: ingredient.imageUrl, dataUrl: ingredient.imageBase64 })
+      if (!file) continue
+
+      const resolved: IngredientInput = { imagePath: file.path, label: ingredient.label }
+      ingredients.push(resolved)
+      resolved.imagePath = (await prepareFrame(file, prepOptions)).path
+    } catch (error) {
+      errors.push({ field, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  if (errors.length > 0) {
+    await removeFrameFiles(resolvedPaths(frames))
+    return { errors }
+  }
+  return { frames }
+}
+
+// An existing project named by URL or ID, or undefined for a new project
+const targetProjectUrl = (request: Pick<GenerationRequest, 'projectUrl' | 'projectId'>) =>
+  request.projectId ? flowProjectUrl(request.projectId) : request.projectUrl
+
+// Jumping the queue is for admin keys - anyone may lower the priority of their own jobs
+function priorityForbidden(req: Request, priority = 0): AuthError | null {
+  if (priority <= 0 || req.apiKey?.scopes.includes('admin')) return null
+  return new AuthError('FORBIDDEN', 'Only admin API keys can set a priority above 0')
+}
+
+// A profileId must name a pool profile; runs pinned to any other would only fail in the queue
+function unknownProfileIssue(profileId: string | undefined, field = 'profileId'): ValidationIssue | null {
+  if (!profileId || listBrowserProfiles().profiles.some(profile => profile.id === profileId)) return null
+  return { field, message: 'is not a profile of the browser pool' }
+}
+
+/**
+ * Answer a single-job submission: 429 when the queue is full, otherwise 202 with the job,
+ * an event stream, or the finished result when the client asked to wait
+ */
+async function respondWithJob(
+  req: Request,
+  res: Response,
+  submitted: SubmitJobResult,
+  { waitForResult, cancelOnDisconnect }: { waitForResult: boolean; cancelOnDisconnect?: boolean }
+) {
+  if (!submitted.accepted) {
+    console.log(`[VEO API] Queue full, retry after ${submitted.retryAfterSeconds}s`)
+    sendError(res, new RateLimitError('QUEUE_FULL', 'Generation queue is full, try again later', submitted.retryAfterSeconds))
+    return
+  }
+
+  const { job, done } = submitted
+  if (req.apiKey) recordDailyGeneration(req.apiKey)
+
+  // Opt-in: a client that stops waiting no longer wants the video
+  if ((cancelOnDisconnect === true || req.query.cancelOnDisconnect === 'true') && (waitForResult || wantsEventStream(req))) {
+    res.on('close', () => {
+      if (res.writableFinished) return
+      console.log(`[VEO API] Client disconnected, cancelling job ${job.id}`)
+      cancelJob(job.id)
+    })
+  }
+
+  if (wantsEventStream(req)) {
+    console.log(`[VEO API] Job ${job.id} queued, streaming progress`)
+    streamJobEvents(res, job)
+    return
+  }
+
+  if (!waitForResult) {
+    console.log(`[VEO API] Job ${job.id} queued at position ${job.queuePosition}`)
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      status: job.state,
+      queuePosition: job.queuePosition,
+      estimatedWaitSeconds: job.estimatedWaitSeconds,
+      statusUrl: `${req.baseUrl}/jobs/${job.id}`
+    })
+    return
+  }
+
+  // Wait for the queue to run the job through Playwright
+  await done
+
+  if (job.state === 'cancelled') {
+    console.log(`[VEO API] Job ${job.id} was cancelled`)
+    if (!res.writableEnded) {
+      sendError(res, new CancelledError(job.error, { jobId: job.id, state: job.state }))
+    }
+    return
+  }
+
+  if (job.state !== 'succeeded') {
+    console.error('[VEO API] Video generation failed:', job.error)
+    sendError(res, new ApiError(job.errorCode || 'GENERATION_FAILED', job.error, { jobId: job.id, projectUrl: job.projectUrl }))
+    return
+  }
+
+  console.log(`[VEO API] Success! Generated ${job.videoUrls?.length || 0} video(s)`)
+  res.json({
+    success: true,
+    jobId: job.id,
+    projectUrl: job.projectUrl,
+    videoUrls: job.videoUrls,
+    videos: job.videos,
+    model: job.model,
+    ingredients: job.ingredients,
+    extendedClipUrl: job.extendedClipUrl,
+    scene: job.scene
+  })
+}
+
+router.post('/', requireScope('generate'), parseGenerationBody, async (req: Request, res: Response) => {
+  const uploads = uploadedFrameFiles(req)
+  // Uploaded parts are already on disk; they're owned by the job once it is queued
+  let framePaths: (string | undefined)[] = Object.values(uploads).flat().map(file => file.path)
+
   try {
-    const { prompt, aspectRatio, mode, outputsCount, startFrameBase64, endFrameBase64 } = req.body
+    const validation = validateGenerationRequest(req.body, {
+      coerceTypes: !!req.is('multipart/form-data'),
+      uploadedFrames: (['start', 'end'] as const).filter(slot => uploads[`${slot}Frame`]?.length),
+    })
+
+    if (!validation.valid) {
+      console.log(`[VEO API] Rejected invalid request: ${formatValidationIssues(validation.errors)}`)
+      sendError(res, new ValidationError(undefined, validation.errors))
+      return
+    }
+
+    const { prompt, aspectRatio, mode, outputsCount, model, policy, sync, cancelOnDisconnect, priority, callbackUrl } = validation.value
+    const { projectName, profileId } = validation.value
+    const projectUrl = targetProjectUrl(validation.value)
+
+    const profileIssue = unknownProfileIssue(profileId)
+    if (profileIssue) {
+      sendError(res, new ValidationError(undefined, [profileIssue]))
+      return
+    }
 
-    if (!prompt) {
-      res.status(400).json({ error: 'Missing required parameter: prompt' })
+    const forbidden = priorityForbidden(req, priority)
+    if (forbidden) {
+      sendError(res, forbidden)
       return
     }
 
-    console.log(`[VEO API] Starting Playwright automation`)
+    if (req.apiKey && !hasDailyQuotaRemaining(req.apiKey)) {
+      sendError(res, new RateLimitError('QUOTA_EXCEEDED', `Daily generation quota of ${req.apiKey.dailyQuota} reached for this API key`))
+      return
+    }
+
+    const resolved = await resolveFrames(validation.value, uploads)
+
+    if ('errors' in resolved) {
+      console.log(`[VEO API] Rejected unusable frame: ${formatValidationIssues(resolved.errors)}`)
+      sendError(res, new ValidationError(undefined, resolved.errors))
+      return
+    }
+
+    const { start: startFrame, end: endFrame, ingredients } = resolved.frames
+    framePaths = resolvedPaths(resolved.frames)
+
+    // Synchronous mode keeps the connection open until the video is ready (legacy behaviour)
+    const waitForResult = sync === true || req.query.sync === 'true'
+
+    console.log(`[VEO API] Starting Playwright automation for key ${req.apiKey?.name}`)
     console.log(`[VEO API] Prompt: ${prompt.substring(0, 50)}...`)
     console.log(`[VEO API] Mode: ${mode || 'text-to-video'}`)
     console.log(`[VEO API] Aspect Ratio: ${aspectRatio || 'landscape'}`)
     console.log(`[VEO API] Outputs Count: ${outputsCount || 1}`)
-    console.log(`[VEO API] Has Start Frame: ${!!startFrameBase64}`)
-    console.log(`[VEO API] Has End Frame: ${!!endFrameBase64}`)
+    console.log(`[VEO API] Model: ${model || 'Flow default'}`)
+    console.log(`[VEO API] Has Start Frame: ${!!startFrame}`)
+    console.log(`[VEO API] Has End Frame: ${!!endFrame}`)
+    console.log(`[VEO API] Ingredients: ${ingredients?.length || 0}`)
+    console.log(`[VEO API] Project: ${projectUrl || `new${projectName ? ` "${projectName}"` : ''}`}`)
+    console.log(`[VEO API] Sync: ${waitForResult}`)
+    console.log(`[VEO API] Callback: ${callbackUrl || 'none'}`)
 
     // Build options object
     const options: VideoGenerationOptions = {
@@ -26,34 +387,575 @@ router.post('/', async (req: Request, res: Response) => {
       aspectRatio: aspectRatio || 'landscape',
       mode: mode || 'text-to-video',
       outputsCount: outputsCount || 1,
-      startFrameBase64,
-      endFrameBase64,
+      model,
+      startFramePath: startFrame?.path,
+      endFramePath: endFrame?.path,
+      ingredients,
+      policy,
+      projectUrl,
+      projectName,
+      profileId,
+    }
+
+    if (!chargeGenerations(req, res)) return
+
+    // From here the job removes the frame files itself, including when the queue turns it away
+    framePaths = []
+
+    const submitted = submitJob(options, {
+      priority: priority || 0,
+      callbackUrl,
+      submittedBy: req.apiKey && { keyId: req.apiKey.id, keyName: req.apiKey.name },
+    })
+    if (!submitted.accepted) refundGenerations(req, res)
+    await respondWithJob(req, res, submitted, { waitForResult, cancelOnDisconnect })
+
+  } catch (error) {
+    // Unexpected failures are logged with their stack; the client only gets a generic message
+    sendError(res, error)
+  } finally {
+    await removeFrameFiles(framePaths)
+  }
+})
+
+/**
+ * The clip a previous job produced, as an extend target - the job may only be left in history
+ * Also returns the profile the job ran on, which is signed in to the project's account
+ */
+async function jobClipTarget(jobId: string, clipIndex = 0): Promise<{ target: ExtendTarget; profileId?: string }> {
+  const source = getJob(jobId) || await historyStore.get(jobId)
+
+  if (!source) {
+    throw new NotFoundError('Job not found')
+  }
+  const clips = source.videoUrls || []
+  if (!source.projectUrl || clips.length === 0) {
+    throw new ConflictError(`Job ${jobId} has no clip to extend`)
+  }
+  if (clipIndex >= clips.length) {
+    throw new ValidationError(undefined, [
+      { field: 'clipIndex', message: `must be less than ${clips.length} - the job has ${clips.length} clip(s)` },
+    ])
+  }
+
+  return {
+    target: { projectUrl: source.projectUrl, clipUrl: clips[clipIndex] },
+    profileId: source.profileId,
+  }
+}
+
+// Continue a clip in its own Flow project - one job that returns the new clip and the whole scene
+router.post('/extend', requireScope('generate'), parseGenerationJson, async (req: Request, res: Response) => {
+  try {
+    const validation = validateExtendRequest(req.body)
+
+    if (!validation.valid) {
+      console.log(`[VEO API] Rejected invalid extend request: ${formatValidationIssues(validation.errors)}`)
+      sendError(res, new ValidationError(undefined, validation.errors))
+      return
     }
 
-    // Generate video via Playwright UI automation
-    const result: VideoGenerationResult = await generateVideoViaPlaywright(
-      options,
-      (message: string) => console.log(`[VEO API] Progress: ${message}`)
-    )
+    const source = validation.value
+    const { clipIndex, prompt, model, policy, sync, cancelOnDisconnect, priority, callbackUrl } = source
+    const requestedProfile = source.profileId
 
-    if (!result.success) {
-      console.error('[VEO API] Video generation failed:', result.error)
-      res.status(500).json({ error: result.error || 'Video generation failed' })
+    const profileIssue = unknownProfileIssue(requestedProfile)
+    if (profileIssue) {
+      sendError(res, new ValidationError(undefined, [profileIssue]))
       return
     }
 
-    console.log(`[VEO API] Success! Generated ${result.videoUrls?.length || 0} video(s)`)
-    res.json({
+    const forbidden = priorityForbidden(req, priority)
+    if (forbidden) {
+      sendError(res, forbidden)
+      return
+    }
+
+    // A profile named in the request wins over the one the job ran on
+    const { target, profileId: jobProfile } = source.jobId !== undefined
+      ? await jobClipTarget(source.jobId, clipIndex)
+      : { target: { projectUrl: source.projectUrl, clipIndex } }
+
+    if (req.apiKey && !hasDailyQuotaRemaining(req.apiKey)) {
+      sendError(res, new RateLimitError('QUOTA_EXCEEDED', `Daily generation quota of ${req.apiKey.dailyQuota} reached for this API key`))
+      return
+    }
+
+    const profileId = requestedProfile || jobProfile
+    const waitForResult = sync === true || req.query.sync === 'true'
+
+    console.log(`[VEO API] Extending a clip for key ${req.apiKey?.name}`)
+    console.log(`[VEO API] Source: ${source.jobId !== undefined ? `job ${source.jobId}` : target.projectUrl}, clip ${target.clipUrl || clipIndex || 0}`)
+    console.log(`[VEO API] Prompt: ${prompt.substring(0, 50)}...`)
+    console.log(`[VEO API] Profile: ${profileId || 'any'}`)
+
+    if (!chargeGenerations(req, res)) return
+
+    const submitted = submitJob({
+      prompt,
+      mode: 'text-to-video',
+      outputsCount: 1,
+      model,
+      policy,
+      extend: target,
+      profileId,
+    }, {
+      priority: priority || 0,
+      callbackUrl,
+      submittedBy: req.apiKey && { keyId: req.apiKey.id, keyName: req.apiKey.name },
+    })
+    if (!submitted.accepted) refundGenerations(req, res)
+    await respondWithJob(req, res, submitted, { waitForResult, cancelOnDisconnect })
+
+  } catch (error) {
+    sendError(res, error)
+  }
+})
+
+// Build generation options for one batch item with its frames resolved
+const batchItemOptions = (item: BatchItemRequest, frames: ResolvedFrames): VideoGenerationOptions => ({
+  prompt: item.prompt,
+  aspectRatio: item.aspectRatio || 'landscape',
+  mode: item.mode || 'text-to-video',
+  outputsCount: item.outputsCount || 1,
+  model: item.model,
+  startFramePath: frames.start?.path,
+  endFramePath: frames.end?.path,
+  ingredients: frames.ingredients,
+  policy: item.policy,
+  projectUrl: targetProjectUrl(item),
+  projectName: item.projectName,
+  profileId: item.profileId,
+})
+
+// One job per item; all items are queued or none are
+router.post('/batch', requireScope('generate'), parseGenerationJson, async (req: Request, res: Response) => {
+  const resolvedItems: ResolvedFrames[] = []
+  const framePaths = () => resolvedItems.flatMap(resolvedPaths)
+
+  try {
+    const validation = validateBatchRequest(req.body)
+
+    if (!validation.valid) {
+      console.log(`[VEO API] Rejected invalid batch: ${formatValidationIssues(validation.errors)}`)
+      sendError(res, new ValidationError(undefined, validation.errors))
+      return
+    }
+
+    const { items, priority } = validation.value
+
+    const profileIssues = items
+      .map((item, index) => unknownProfileIssue(item.profileId, `items.${index}.profileId`))
+      .filter((issue): issue is ValidationIssue => !!issue)
+    if (profileIssues.length > 0) {
+      sendError(res, new ValidationError(undefined, profileIssues))
+      return
+    }
+
+    const forbidden = priorityForbidden(req, priority)
+    if (forbidden) {
+      sendError(res, forbidden)
+      return
+    }
+
+    if (req.apiKey && !hasDailyQuotaRemaining(req.apiKey, items.length)) {
+      sendError(res, new RateLimitError(
+        'QUOTA_EXCEEDED',
+        `Batch of ${items.length} would exceed the daily generation quota of ${req.apiKey.dailyQuota} for this API key`
+      ))
+      return
+    }
+
+    for (const [index, item] of items.entries()) {
+      const resolved = await resolveFrames(item)
+
+      if ('errors' in resolved) {
+        await removeFrameFiles(framePaths())
+        resolvedItems.length = 0
+        const details = resolved.errors.map(issue => ({ ...issue, field: `items.${index}.${issue.field}` }))
+        console.log(`[VEO API] Rejected unusable frame: ${formatValidationIssues(details)}`)
+        sendError(res, new ValidationError(undefined, details))
+        return
+      }
+
+      resolvedItems.push(resolved.frames)
+    }
+
+    console.log(`[VEO API] Batch of ${items.length} from key ${req.apiKey?.name}`)
+
+    if (!chargeGenerations(req, res, items.length)) return
+
+    const options = items.map((item, index) => batchItemOptions(item, resolvedItems[index]))
+    // From here the jobs (or submitBatch, on rejection) remove the frame files
+    resolvedItems.length = 0
+
+    const submitted = submitBatch(options, {
+      priority: priority || 0,
+      submittedBy: req.apiKey && { keyId: req.apiKey.id, keyName: req.apiKey.name },
+    })
+
+    if (!submitted.accepted) {
+      refundGenerations(req, res, items.length)
+      console.log(`[VEO API] Queue has room for ${submitted.available} of ${items.length}, retry after ${submitted.retryAfterSeconds}s`)
+      sendError(res, new RateLimitError(
+        'QUEUE_FULL',
+        `Generation queue has room for ${submitted.available} more job(s), batch needs ${items.length}`,
+        submitted.retryAfterSeconds
+      ))
+      return
+    }
+
+    const { batch } = submitted
+    if (req.apiKey) recordDailyGeneration(req.apiKey, items.length)
+
+    res.status(202).json({
       success: true,
-      videoUrls: result.videoUrls
+      batchId: batch.id,
+      status: batch.state,
+      items: batch.items.map(({ index, jobId, state, queuePosition }) => ({ index, jobId, state, queuePosition })),
+      statusUrl: `${req.baseUrl}/batches/${batch.id}`
     })
 
   } catch (error) {
-    console.error('[VEO API] Error:', error)
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Internal server error',
-      details: error instanceof Error ? error.stack : String(error)
+    sendError(res, error)
+  } finally {
+    await removeFrameFiles(framePaths())
+  }
+})
+
+router.get('/batches/:id', requireScope('read'), (req: Request, res: Response) => {
+  const batch = getBatch(req.params.id)
+
+  if (!batch) {
+    sendError(res, new NotFoundError('Batch not found'))
+    return
+  }
+
+  res.json(batch)
+})
+
+// Cancel every unfinished item; the batch stays readable
+router.delete('/batches/:id', requireScope('generate'), (req: Request, res: Response) => {
+  const result = cancelBatch(req.params.id)
+
+  if (!result) {
+    sendError(res, new NotFoundError('Batch not found'))
+    return
+  }
+
+  res.json({ success: true, cancelled: result.cancelled, cancelling: result.cancelling, batch: result.batch })
+})
+
+// Google session health of the browser profiles, as seen by their last run or re-login
+router.get('/session', requireScope('read'), (_req: Request, res: Response) => {
+  res.json(getSessionStatus())
+})
+
+// Default timing and retry policy, and the bounds per-request overrides must stay within
+router.get('/policy', requireScope('read'), (_req: Request, res: Response) => {
+  res.json(getGenerationPolicy())
+})
+
+// Models and other settings Flow offers, read from the UI on first use and cached;
+// ?refresh=true reads them again
+router.get('/capabilities', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const cached = req.query.refresh === 'true' ? null : getCachedCapabilities()
+    const capabilities = cached || await discoverFlowCapabilities()
+    res.json({ ...capabilities, cached: !!cached })
+  } catch (error) {
+    sendError(res, error)
+  }
+})
+
+// Projects of the account on a profile - ?profileId= picks the account, otherwise any idle profile's
+router.get('/projects', requireScope('read'), async (req: Request, res: Response) => {
+  const profileId = typeof req.query.profileId === 'string' && req.query.profileId ? req.query.profileId : undefined
+
+  try {
+    const profileIssue = unknownProfileIssue(profileId)
+    if (profileIssue) {
+      sendError(res, new ValidationError(undefined, [profileIssue]))
+      return
+    }
+
+    res.json(await listFlowProjects(profileId))
+  } catch (error) {
+    sendError(res, error)
+  }
+})
+
+// Record the finished clips of a project as succeeded jobs - ?profileId= picks the account's profile
+router.post('/projects/:id/import', requireScope('generate'), async (req: Request, res: Response) => {
+  const profileId = typeof req.query.profileId === 'string' && req.query.profileId ? req.query.profileId : undefined
+
+  try {
+    const issues = [
+      /^[A-Za-z0-9_-]+$/.test(req.params.id) ? null : { field: 'id', message: 'must be a Flow project ID (letters, digits, - and _)' },
+      unknownProfileIssue(profileId),
+    ].filter((issue): issue is ValidationIssue => !!issue)
+    if (issues.length > 0) {
+      sendError(res, new ValidationError(undefined, issues))
+      return
+    }
+
+    console.log(`[VEO API] Importing project ${req.params.id} for key ${req.apiKey?.name}`)
+    const result = await importProjectClips(flowProjectUrl(req.params.id), {
+      profileId,
+      submittedBy: req.apiKey && { keyId: req.apiKey.id, keyName: req.apiKey.name },
+    })
+
+    res.json({
+      success: true,
+      projectUrl: result.projectUrl,
+      profileId: result.profileId,
+      imported: result.imported.map(job => ({
+        jobId: job.id,
+        prompt: job.request.prompt,
+        model: job.model,
+        aspectRatio: job.request.aspectRatio,
+        videoUrls: job.videoUrls,
+        videos: job.videos,
+      })),
+      skipped: result.skipped,
+    })
+  } catch (error) {
+    sendError(res, error)
+  }
+})
+
+// JSON Schema for the POST /api/veo body
+router.get('/schema', requireScope('read'), (_req: Request, res: Response) => {
+  res.json(generationRequestSchema)
+})
+
+// JSON Schema for the POST /api/veo/extend body
+router.get('/schema/extend', requireScope('read'), (_req: Request, res: Response) => {
+  res.json(extendRequestSchema)
+})
+
+// JSON Schema for the POST /api/veo/batch body
+router.get('/schema/batch', requireScope('read'), (_req: Request, res: Response) => {
+  res.json(batchRequestSchema)
+})
+
+router.get('/queue', requireScope('read'), (_req: Request, res: Response) => {
+  res.json(getQueueStats())
+})
+
+// Admins see every key's usage, everyone else only their own
+router.get('/usage', requireScope('read'), (req: Request, res: Response) => {
+  const isAdmin = req.apiKey?.scopes.includes('admin')
+  res.json(getUsage(isAdmin ? undefined : req.apiKey?.id))
+})
+
+router.get('/jobs', requireScope('read'), (req: Request, res: Response) => {
+  const state = req.query.status as JobState | undefined
+
+  if (state && !JOB_STATES.includes(state)) {
+    sendError(res, new ValidationError(`Invalid status filter. Use one of: ${JOB_STATES.join(', ')}`))
+    return
+  }
+
+  res.json({ jobs: listJobs({ state }) })
+})
+
+router.get('/jobs/:id', requireScope('read'), (req: Request, res: Response) => {
+  const job = getJob(req.params.id)
+
+  if (!job) {
+    sendError(res, new NotFoundError('Job not found'))
+    return
+  }
+
+  res.json(job)
+})
+
+// Queued jobs are cancelled immediately (200); running jobs get 202 and reach cancelled once the browser stops
+router.delete('/jobs/:id', requireScope('generate'), (req: Request, res: Response) => {
+  // Looked up before cancelling - a job cancelled while queued can be pruned from the registry straight away
+  const job = getJob(req.params.id)
+  const result = cancelJob(req.params.id)
+
+  if (!job || result === 'not-found') {
+    sendError(res, new NotFoundError('Job not found'))
+    return
+  }
+
+  if (result === 'finished') {
+    sendError(res, new ConflictError(`Job already ${job.state}`, { state: job.state }))
+    return
+  }
+
+  console.log(`[VEO API] Job ${job.id} ${result} by key ${req.apiKey?.name}`)
+  res.status(result === 'cancelled' ? 200 : 202).json({ success: true, jobId: job.id, state: job.state, cancelledDuring: job.cancelledDuring })
+})
+
+router.get('/jobs/:id/webhook', requireScope('read'), (req: Request, res: Response) => {
+  const job = getJob(req.params.id)
+
+  if (!job) {
+    sendError(res, new NotFoundError('Job not found'))
+    return
+  }
+
+  if (!job.webhook) {
+    sendError(res, new NotFoundError('Job has no callbackUrl'))
+    return
+  }
+
+  res.json(job.webhook)
+})
+
+router.get('/jobs/:id/events', requireScope('read'), (req: Request, res: Response) => {
+  const job = getJob(req.params.id)
+
+  if (!job) {
+    sendError(res, new NotFoundError('Job not found'))
+    return
+  }
+
+  streamJobEvents(res, job)
+})
+
+// Dates accept anything Date can parse and are compared as ISO timestamps
+const parseDateParam = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === '') return undefined
+  const date = new Date(String(value))
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+router.get('/history', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { status, from, to, prompt, limit, offset } = req.query
+
+    if (status && !JOB_STATES.includes(status as JobState)) {
+      sendError(res, new ValidationError(`Invalid status filter. Use one of: ${JOB_STATES.join(', ')}`))
+      return
+    }
+
+    const fromDate = parseDateParam(from)
+    const toDate = parseDateParam(to)
+    if (fromDate === null || toDate === null) {
+      sendError(res, new ValidationError('Invalid date in from/to filter'))
+      return
+    }
+
+    const page = await historyStore.query({
+      status: status as JobState | undefined,
+      from: fromDate,
+      to: toDate,
+      prompt: prompt ? String(prompt) : undefined,
+      limit: Number(limit) || undefined,
+      offset: Number(offset) || undefined,
     })
+
+    res.json(page)
+
+  } catch (error) {
+    console.error('[VEO API] History query error:', error)
+    sendError(res, new ApiError('INTERNAL_ERROR', 'Could not read history'))
+  }
+})
+
+router.get('/history/:id', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const record = await historyStore.get(req.params.id)
+
+    if (!record) {
+      sendError(res, new NotFoundError('History record not found'))
+      return
+    }
+
+    res.json(record)
+
+  } catch (error) {
+    console.error('[VEO API] History read error:', error)
+    sendError(res, new ApiError('INTERNAL_ERROR', 'Could not read history'))
+  }
+})
+
+router.get('/videos/:id/metadata', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const metadata = await videoStorage.getMetadata(req.params.id)
+
+    if (!metadata) {
+      sendError(res, new NotFoundError('Video not found'))
+      return
+    }
+
+    res.json(metadata)
+  } catch (error) {
+    console.error('[VEO API] Video metadata error:', error)
+    sendError(res, new ApiError('INTERNAL_ERROR', 'Could not read video metadata'))
+  }
+})
+
+/**
+ * Pipe a stored video to the client - a file pruned or deleted since its metadata was read
+ * answers 404 before any bytes are out, and cuts the response short after
+ */
+function pipeVideo(stream: Readable, res: Response) {
+  stream.on('error', (error: NodeJS.ErrnoException) => {
+    console.error('[VEO API] Video stream error:', error)
+    if (res.headersSent) {
+      res.destroy()
+      return
+    }
+    for (const header of ['Accept-Ranges', 'Content-Range', 'Content-Length', 'ETag', 'Cache-Control']) {
+      res.removeHeader(header)
+    }
+    sendError(res, error.code === 'ENOENT'
+      ? new NotFoundError('Video not found')
+      : new ApiError('INTERNAL_ERROR', 'Could not read video'))
+  })
+  res.on('close', () => stream.destroy())
+  stream.pipe(res)
+}
+
+// Serve a stored video with HTTP Range support so players can seek
+router.get('/videos/:id', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const metadata = await videoStorage.getMetadata(req.params.id)
+
+    if (!metadata) {
+      sendError(res, new NotFoundError('Video not found'))
+      return
+    }
+
+    res.setHeader('Accept-Ranges', 'bytes')
+    res.setHeader('Content-Type', metadata.contentType)
+    res.setHeader('ETag', `"${metadata.sha256}"`)
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable')
+
+    const ranges = req.range(metadata.size)
+
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${metadata.size}`)
+      res.status(416).end()
+      return
+    }
+
+    // Only single ranges are served; malformed or multi-range requests get the whole file
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      const { start, end } = ranges[0]
+      res.status(206)
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${metadata.size}`)
+      res.setHeader('Content-Length', String(end - start + 1))
+      pipeVideo(await videoStorage.openReadStream(metadata.id, { start, end }), res)
+      return
+    }
+
+    res.setHeader('Content-Length', String(metadata.size))
+    pipeVideo(await videoStorage.openReadStream(metadata.id), res)
+
+  } catch (error) {
+    console.error('[VEO API] Video stream error:', error)
+    if (!res.headersSent) {
+      sendError(res, new ApiError('INTERNAL_ERROR', 'Could not read video'))
+    } else {
+      res.end()
+    }
   }
 })
 
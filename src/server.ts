@@ -4,24 +4,44 @@ dotenv.config({ path: '.env.local' })
 import express, { Request, Response } from 'express'
 import path from 'path'
 import veoRouter from './routes/veo'
-import { apiKeyAuth } from './middleware/auth'
+import adminRouter from './routes/admin'
+import { apiKeyAuth, requireScope } from './middleware/auth'
+import { ipRateLimit, keyRateLimit } from './middleware/rate-limit'
+import { sendError, errorHandler } from './middleware/errors'
+import { loadApiKeys } from './lib/api-keys'
+import { loadBrowserProfiles } from './lib/browser-pool'
+import { loadFlowSelectors } from './lib/flow-selectors'
+import { loadGenerationPolicy } from './lib/generation-policy'
+import { isWebhookSigningEnabled } from './lib/webhooks'
+import { NotFoundError } from './lib/errors'
+
+// Refuse to start without real API keys, or with a broken browser profile pool, selector overrides or generation policy
+try {
+  loadApiKeys()
+  loadBrowserProfiles()
+  loadFlowSelectors()
+  loadGenerationPolicy()
+} catch (error) {
+  console.error(`[Server] ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+}
 
 const app = express()
 const PORT = process.env.PORT || 3000
 
-// Middleware
-app.use(express.json({ limit: '50mb' })) // Allow large base64 images
-
 // Serve static files (API docs)
 app.use(express.static(path.join(__dirname, '../public')))
 
 // Health check (no auth required)
-app.get('/health', (_req: Request, res: Response) => {
+app.get('/health', ipRateLimit, (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
 // API Routes (with auth)
-app.use('/api/veo', apiKeyAuth, veoRouter)
+// Bodies are parsed per route, after auth, so unauthenticated clients can't make the server buffer
+// large uploads - generation requests take JSON or multipart frames (see middleware/frame-upload)
+app.use('/api/veo', apiKeyAuth, keyRateLimit, veoRouter)
+app.use('/api/admin', apiKeyAuth, keyRateLimit, requireScope('admin'), express.json(), adminRouter)
 
 // API docs page
 app.get('/', (_req: Request, res: Response) => {
@@ -30,9 +50,12 @@ app.get('/', (_req: Request, res: Response) => {
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
-  res.status(404).json({ error: 'Not found' })
+  sendError(res, new NotFoundError())
 })
 
+// Errors thrown by routes or body parsers
+app.use(errorHandler)
+
 // Start server - bind to 0.0.0.0 for external access
 const HOST = process.env.HOST || '0.0.0.0'
 const PUBLIC_IP = process.env.PUBLIC_IP || '92.111.11.30'
@@ -42,5 +65,8 @@ app.listen(Number(PORT), HOST, () => {
   console.log(`[Server] Local access: http://localhost:${PORT}/`)
   console.log(`[Server] Public access: http://${PUBLIC_IP}:${PORT}/`)
   console.log(`[Server] VEO API: POST http://${PUBLIC_IP}:${PORT}/api/veo`)
-  console.log(`[Server] API Key: ${process.env.API_KEY ? 'Configured ✓' : 'Using default (set API_KEY in .env.local)'}`)
+  console.log(`[Server] API Key: ${process.env.API_KEY ? 'Configured ✓' : 'Not set (using keys file only)'}`)
+  if (!isWebhookSigningEnabled()) {
+    console.warn('[Server] WEBHOOK_SECRET is not set - webhook deliveries are unsigned, receivers cannot verify them')
+  }
 })
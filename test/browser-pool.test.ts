@@ -0,0 +1,56 @@
+// test/browser-pool.test.ts
+// Profile slots shared by queued generations and other Flow work
+
+import './helpers/env'
+
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { acquireProfile, releaseProfile } from '../src/lib/browser-pool'
+
+const released = { failed: false }
+
+test('an acquire waits for a busy profile to be released', async () => {
+  const first = await acquireProfile()
+  assert.equal(first?.id, 'e2e')
+
+  let waited = false
+  const second = acquireProfile('e2e', { onWait: () => { waited = true } })
+  assert.equal(waited, true)
+
+  releaseProfile('e2e', released)
+  assert.equal((await second)?.id, 'e2e')
+  releaseProfile('e2e', released)
+})
+
+test('waiting callers are served in arrival order', async () => {
+  await acquireProfile()
+  const order: string[] = []
+  const a = acquireProfile().then(profile => { order.push('a'); return profile })
+  const b = acquireProfile('e2e').then(profile => { order.push('b'); return profile })
+
+  releaseProfile('e2e', released)
+  await a
+  assert.deepEqual(order, ['a'])
+
+  releaseProfile('e2e', released)
+  await b
+  assert.deepEqual(order, ['a', 'b'])
+  releaseProfile('e2e', released)
+})
+
+test('an acquire gives up after its timeout or when aborted', async () => {
+  await acquireProfile()
+
+  assert.equal(await acquireProfile(undefined, { timeoutMs: 20 }), null)
+
+  const controller = new AbortController()
+  const aborted = acquireProfile(undefined, { signal: controller.signal })
+  controller.abort()
+  assert.equal(await aborted, null)
+
+  releaseProfile('e2e', released)
+})
+
+test('an acquire for a profile outside the pool resolves null straight away', async () => {
+  assert.equal(await acquireProfile('missing', { timeoutMs: 60000 }), null)
+})
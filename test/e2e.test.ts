@@ -0,0 +1,140 @@
+// test/e2e.test.ts
+// Generation runs against the mock Flow site - skipped where Chrome isn't installed
+
+import { TEST_DIR } from './helpers/env'
+
+import assert from 'node:assert/strict'
+import { after, before, describe, test } from 'node:test'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import fs from 'fs'
+import path from 'path'
+import express from 'express'
+import sharp from 'sharp'
+import { chromeAvailable, MockFlow, startMockFlow } from './helpers/mock-flow'
+import { generateVideoViaPlaywright } from '../src/lib/playwright-veo'
+import { loadApiKeys } from '../src/lib/api-keys'
+import { loadBrowserProfiles } from '../src/lib/browser-pool'
+import { loadFlowSelectors } from '../src/lib/flow-selectors'
+import { apiKeyAuth } from '../src/middleware/auth'
+import { errorHandler } from '../src/middleware/errors'
+import veoRouter from '../src/routes/veo'
+
+const API_KEY = 'e2e-test-key'
+process.env.API_KEY = API_KEY
+
+describe('generation against the mock Flow site', () => {
+  let hasChrome = false
+  let mock: MockFlow | undefined
+  let server: Server | undefined
+  let apiUrl = ''
+
+  before(async () => {
+    hasChrome = await chromeAvailable()
+    if (!hasChrome) return
+
+    loadApiKeys()
+    loadBrowserProfiles()
+    mock = await startMockFlow()
+
+    const app = express()
+    app.use('/api/veo', apiKeyAuth, veoRouter)
+    app.use(errorHandler)
+    server = app.listen(0)
+    await new Promise(resolve => server!.once('listening', resolve))
+    apiUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/veo`
+  })
+
+  after(async () => {
+    server?.close()
+    await mock?.stop()
+  })
+
+  test('text-to-video through POST /api/veo', async (t) => {
+    if (!hasChrome) return t.skip('Chrome is not installed')
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': API_KEY },
+      body: JSON.stringify({ prompt: 'A lighthouse at dusk', sync: true }),
+    })
+    const body = await response.json()
+
+    assert.equal(response.status, 200, JSON.stringify(body))
+    assert.equal(body.success, true)
+    assert.equal(body.videoUrls.length, 1)
+    assert.match(body.projectUrl, /\/project\//)
+  })
+
+  test('frames-to-video with a start frame', async (t) => {
+    if (!hasChrome) return t.skip('Chrome is not installed')
+
+    const startFramePath = path.join(TEST_DIR, 'start.png')
+    await sharp({ create: { width: 1280, height: 720, channels: 3, background: '#3366cc' } }).png().toFile(startFramePath)
+
+    const result = await generateVideoViaPlaywright({
+      prompt: 'The camera pulls back',
+      mode: 'frames-to-video',
+      startFramePath,
+      downloadVideos: false,
+    })
+
+    assert.equal(result.success, true, result.error)
+    assert.equal(result.videoUrls?.length, 1)
+  })
+
+  test('multiple outputs', async (t) => {
+    if (!hasChrome) return t.skip('Chrome is not installed')
+
+    const result = await generateVideoViaPlaywright({ prompt: 'Waves on a beach', outputsCount: 3, downloadVideos: false })
+
+    assert.equal(result.success, true, result.error)
+    assert.equal(result.videoUrls?.length, 3)
+    assert.equal(new Set(result.videoUrls).size, 3)
+  })
+
+  test('retries an output that fails once', async (t) => {
+    if (!hasChrome) return t.skip('Chrome is not installed')
+
+    const result = await generateVideoViaPlaywright({ prompt: 'A paper boat [fail]', downloadVideos: false })
+
+    assert.equal(result.success, true, result.error)
+    assert.equal(result.videoUrls?.length, 1)
+  })
+
+  test('times out when outputs never finish', async (t) => {
+    if (!hasChrome) return t.skip('Chrome is not installed')
+
+    const result = await generateVideoViaPlaywright({
+      prompt: 'A clock that never stops [hang]',
+      policy: { timeoutMs: 6000 },
+      downloadVideos: false,
+    })
+
+    assert.equal(result.success, false)
+    assert.equal(result.errorCode, 'TIMEOUT')
+    assert.equal(result.retryable, true)
+  })
+
+  test('fails when the outputs setting cannot be applied', async (t) => {
+    if (!hasChrome) return t.skip('Chrome is not installed')
+
+    // An option selector the page never matches, as after a Flow UI change
+    fs.writeFileSync(process.env.FLOW_SELECTORS_FILE!, JSON.stringify({
+      version: 'e2e-missing-outputs',
+      selectors: { outputsOption: '[role="option"][data-e2e="missing"]' },
+    }))
+    loadFlowSelectors()
+
+    try {
+      const result = await generateVideoViaPlaywright({ prompt: 'Two kites', outputsCount: 2, downloadVideos: false })
+
+      assert.equal(result.success, false)
+      assert.equal(result.errorCode, 'UI_ELEMENT_NOT_FOUND')
+      assert.match(result.error || '', /outputs per prompt/)
+    } finally {
+      fs.rmSync(process.env.FLOW_SELECTORS_FILE!, { force: true })
+      loadFlowSelectors()
+    }
+  })
+})
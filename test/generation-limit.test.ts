@@ -0,0 +1,79 @@
+// test/generation-limit.test.ts
+// The daily generation limit is only charged for work the queue accepts
+
+import './helpers/env'
+import './helpers/generation-limits'
+
+import assert from 'node:assert/strict'
+import { after, before, test } from 'node:test'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import express from 'express'
+import { loadApiKeys } from '../src/lib/api-keys'
+import { loadBrowserProfiles } from '../src/lib/browser-pool'
+import { apiKeyAuth } from '../src/middleware/auth'
+import { errorHandler } from '../src/middleware/errors'
+import veoRouter from '../src/routes/veo'
+
+const API_KEY = 'limit-test-key'
+process.env.API_KEY = API_KEY
+
+let server: Server
+let apiUrl = ''
+
+before(async () => {
+  loadApiKeys()
+  loadBrowserProfiles()
+
+  const app = express()
+  app.use('/api/veo', apiKeyAuth, veoRouter)
+  app.use(errorHandler)
+  server = app.listen(0)
+  await new Promise(resolve => server.once('listening', resolve))
+  apiUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/veo`
+})
+
+after(() => {
+  server.close()
+})
+
+const post = async (route: string, body: unknown) => {
+  const response = await fetch(`${apiUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': API_KEY },
+    body: JSON.stringify(body),
+  })
+  return { response, body: await response.json() }
+}
+
+// Two items against a queue that holds one - turned away after every other check has passed
+const oversizedBatch = { items: [{ prompt: 'A red kite' }, { prompt: 'A blue kite' }] }
+
+test('a batch the queue turns away is refunded', async () => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { response, body } = await post('/batch', oversizedBatch)
+
+    assert.equal(response.status, 429)
+    assert.equal(body.code, 'QUEUE_FULL')
+    assert.equal(response.headers.get('ratelimit-limit'), '2')
+    assert.equal(response.headers.get('ratelimit-remaining'), '2')
+  }
+})
+
+test('a frame URL that cannot be fetched costs nothing', async () => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { response, body } = await post('/', {
+      prompt: 'The camera pulls back',
+      mode: 'frames-to-video',
+      startFrameUrl: 'http://frame.invalid/start.png',
+    })
+
+    assert.equal(response.status, 400)
+    assert.equal(body.code, 'VALIDATION_FAILED')
+  }
+
+  // Both generations are still there for a request that gets as far as the queue
+  const { response, body } = await post('/batch', oversizedBatch)
+  assert.equal(body.code, 'QUEUE_FULL')
+  assert.equal(response.headers.get('ratelimit-remaining'), '2')
+})
@@ -0,0 +1,4 @@
+// test/helpers/allow-private-urls.ts
+// Lets outbound requests reach loopback receivers - import before anything from src/
+
+process.env.ALLOW_PRIVATE_URLS = 'true'
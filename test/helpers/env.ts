@@ -0,0 +1,33 @@
+// test/helpers/env.ts
+// Points every file-backed setting at a throwaway directory - import before anything from src/
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'veo-test-'))
+process.on('exit', () => fs.rmSync(TEST_DIR, { recursive: true, force: true }))
+export const MOCK_FLOW_PORT = 4300 + Math.floor(Math.random() * 500)
+export const MOCK_FLOW_URL = `http://localhost:${MOCK_FLOW_PORT}/fx/tools/flow/`
+
+const writeJson = (name: string, content: unknown) => {
+  const file = path.join(TEST_DIR, name)
+  fs.writeFileSync(file, JSON.stringify(content))
+  return file
+}
+
+process.env.FLOW_BASE_URL = MOCK_FLOW_URL
+process.env.MOCK_FLOW_PORT = String(MOCK_FLOW_PORT)
+process.env.MOCK_FLOW_GENERATION_MS = '2000'
+process.env.HISTORY_DIR = path.join(TEST_DIR, 'history')
+process.env.VIDEO_STORAGE_DIR = path.join(TEST_DIR, 'videos')
+process.env.FLOW_SELECTORS_FILE = path.join(TEST_DIR, 'no-selector-overrides.json')
+process.env.BROWSER_PROFILES_FILE = writeJson('profiles.json', {
+  profiles: [{ id: 'e2e', userDataDir: path.join(TEST_DIR, 'profile'), headless: true }],
+})
+// Short waits so a run against the mock takes seconds, with bounds that let a test shorten the timeout
+process.env.GENERATION_POLICY_FILE = writeJson('policy.json', {
+  defaults: { timeoutMs: 30000, pollIntervalMs: 1000, maxRetries: 2, stablePolls: 2, settleMinMs: 0, settleMaxMs: 200 },
+  bounds: { timeoutMs: { min: 5000, max: 60000 }, pollIntervalMs: { min: 500, max: 5000 } },
+})
+process.env.API_KEYS_FILE = path.join(TEST_DIR, 'api-keys.json')
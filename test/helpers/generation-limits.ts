@@ -0,0 +1,5 @@
+// test/helpers/generation-limits.ts
+// A daily generation limit and queue small enough to exhaust in a test - import before anything from src/
+
+process.env.RATE_LIMIT_GENERATIONS_PER_DAY = '2'
+process.env.GENERATION_QUEUE_MAX = '1'
@@ -0,0 +1,64 @@
+// test/helpers/mock-flow.ts
+// Runs src/mock-flow.ts in a child process on the port test/helpers/env picked
+
+import { ChildProcess, spawn } from 'child_process'
+import path from 'path'
+import { chromium } from 'playwright'
+import { MOCK_FLOW_PORT } from './env'
+
+const ROOT = path.join(__dirname, '../..')
+
+export type MockFlow = {
+  stop: () => Promise<void>
+}
+
+/**
+ * Start the mock Flow site and resolve once it is listening
+ */
+export function startMockFlow(env: Record<string, string> = {}): Promise<MockFlow> {
+  const child: ChildProcess = spawn(process.execPath, ['--import', 'tsx', 'src/mock-flow.ts'], {
+    cwd: ROOT,
+    env: { ...process.env, MOCK_FLOW_PORT: String(MOCK_FLOW_PORT), ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  })
+
+  const stop = () => new Promise<void>((resolve) => {
+    if (child.exitCode !== null) return resolve()
+    child.once('exit', () => resolve())
+    child.kill()
+  })
+
+  return new Promise((resolve, reject) => {
+    let output = ''
+    const timer = setTimeout(() => {
+      stop().then(() => reject(new Error(`Mock Flow did not start:\n${output}`)))
+    }, 30000)
+
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString()
+      if (output.includes('[Mock Flow] Running')) {
+        clearTimeout(timer)
+        resolve({ stop })
+      }
+    }
+    child.stdout!.on('data', onData)
+    child.stderr!.on('data', onData)
+    child.once('exit', (code) => {
+      clearTimeout(timer)
+      reject(new Error(`Mock Flow exited with code ${code}:\n${output}`))
+    })
+  })
+}
+
+/**
+ * Whether the Chrome channel the browser pool launches is installed here
+ */
+export async function chromeAvailable(): Promise<boolean> {
+  try {
+    const browser = await chromium.launch({ channel: 'chrome', headless: true, args: ['--no-sandbox'] })
+    await browser.close()
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,48 @@
+// test/history.test.ts
+// Both history backends keep the whole record, including model, ingredients and project name
+
+import { TEST_DIR } from './helpers/env'
+
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import path from 'path'
+import { createFileHistoryStore, type GenerationRecord, type HistoryStore } from '../src/lib/history'
+import { createSqliteHistoryStore } from '../src/lib/history-sqlite'
+
+const record: GenerationRecord = {
+  id: 'b5b0f9c2-0000-4000-8000-000000000001',
+  status: 'succeeded',
+  options: {
+    prompt: 'A knight crossing a bridge',
+    mode: 'ingredients-to-video',
+    model: 'Veo 3.1 - Quality',
+    ingredientCount: 2,
+    projectName: 'Knights',
+  },
+  createdAt: '2026-01-02T10:00:00.000Z',
+  finishedAt: '2026-01-02T10:03:00.000Z',
+  progress: [],
+  projectUrl: 'https://labs.google/fx/tools/flow/project/abc',
+  model: 'Veo 3.1 - Quality',
+  ingredients: [
+    { index: 0, label: 'knight', accepted: true },
+    { index: 1, label: 'bridge', accepted: false, error: 'Upload to Flow failed' },
+  ],
+  videoUrls: ['https://storage.googleapis.com/ai-sandbox-videofx/video/1'],
+}
+
+const stores: [string, () => HistoryStore][] = [
+  ['file', () => createFileHistoryStore(path.join(TEST_DIR, 'history-test', 'generations.jsonl'))],
+  ['sqlite', () => createSqliteHistoryStore(path.join(TEST_DIR, 'history-test', 'generations.db'))],
+]
+
+for (const [name, createStore] of stores) {
+  test(`${name} store round-trips model, ingredients and project name`, async () => {
+    const store = createStore()
+    await store.save(record)
+
+    assert.deepEqual(await store.get(record.id), record)
+    const page = await store.query({ prompt: 'knight' })
+    assert.deepEqual(page.records, [record])
+  })
+}
@@ -0,0 +1,29 @@
+// test/outbound.test.ts
+// Client-supplied URLs must not reach the server's own network
+
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { hasNonPublicHost, isNonPublicAddress, requestPublicUrl } from '../src/lib/outbound'
+import { fetchFrameFromUrl } from '../src/lib/frames'
+
+test('classifies loopback, private, link-local and metadata addresses as non-public', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1']) {
+    assert.equal(isNonPublicAddress(address), true, address)
+  }
+  for (const address of ['8.8.8.8', '142.250.1.1', '2001:4860:4860::8888']) {
+    assert.equal(isNonPublicAddress(address), false, address)
+  }
+})
+
+test('spots non-public hosts named outright in a URL', () => {
+  assert.equal(hasNonPublicHost('http://localhost:3000/hook'), true)
+  assert.equal(hasNonPublicHost('http://[::1]/hook'), true)
+  assert.equal(hasNonPublicHost('http://169.254.169.254/latest/meta-data'), true)
+  assert.equal(hasNonPublicHost('https://example.com/hook'), false)
+})
+
+test('refuses to connect to IP literals and names that resolve to non-public addresses', async () => {
+  await assert.rejects(requestPublicUrl('http://127.0.0.1:9/', { timeoutMs: 5000 }), /non-public address/)
+  await assert.rejects(requestPublicUrl('http://localhost:9/', { timeoutMs: 5000 }), /non-public address/)
+  await assert.rejects(fetchFrameFromUrl('http://169.254.169.254/latest/meta-data'), /non-public address/)
+})
@@ -0,0 +1,106 @@
+// test/queue.test.ts
+// Generation queue ordering, concurrency and removal, with a fake worker in place of the browser
+
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createGenerationQueue } from '../src/lib/queue'
+
+// A worker whose runs finish only when the test says so
+function fakeGenerator() {
+  const started: string[] = []
+  const finishers = new Map<string, () => void>()
+  const worker = (id: string) => new Promise<void>(resolve => {
+    started.push(id)
+    finishers.set(id, resolve)
+  })
+  const finish = async (id: string) => {
+    finishers.get(id)!()
+    // Let the queue's completion handlers run and start the next item
+    await new Promise(resolve => setImmediate(resolve))
+  }
+  return { started, worker, finish }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve))
+
+test('runs higher priorities first and equal priorities in submission order', async () => {
+  const generator = fakeGenerator()
+  const queue = createGenerationQueue<string>({ worker: generator.worker, concurrency: 1 })
+
+  queue.enqueue('running', 'running')
+  queue.enqueue('low-1', 'low-1', 0)
+  queue.enqueue('low-2', 'low-2', 0)
+  queue.enqueue('high', 'high', 5)
+  queue.enqueue('low-3', 'low-3', 0)
+  await flush()
+
+  assert.equal(queue.position('running'), 0)
+  assert.equal(queue.position('high'), 1)
+  assert.equal(queue.position('low-1'), 2)
+
+  for (const id of ['running', 'high', 'low-1', 'low-2', 'low-3']) {
+    await generator.finish(id)
+  }
+  assert.deepEqual(generator.started, ['running', 'high', 'low-1', 'low-2', 'low-3'])
+})
+
+test('never runs more items than the concurrency cap', async () => {
+  const generator = fakeGenerator()
+  let limit = 2
+  const queue = createGenerationQueue<string>({ worker: generator.worker, concurrency: () => limit })
+
+  for (const id of ['a', 'b', 'c', 'd']) queue.enqueue(id, id)
+  await flush()
+  assert.deepEqual(generator.started, ['a', 'b'])
+  assert.equal(queue.stats().running, 2)
+  assert.equal(queue.stats().waiting, 2)
+
+  await generator.finish('a')
+  assert.deepEqual(generator.started, ['a', 'b', 'c'])
+
+  // A limit read from a function is re-checked as items finish
+  limit = 1
+  await generator.finish('b')
+  assert.deepEqual(generator.started, ['a', 'b', 'c'])
+  await generator.finish('c')
+  assert.deepEqual(generator.started, ['a', 'b', 'c', 'd'])
+  await generator.finish('d')
+})
+
+test('rejects with a retry hint once the waiting list is full', async () => {
+  const generator = fakeGenerator()
+  const queue = createGenerationQueue<string>({ worker: generator.worker, maxLength: 1, estimatedRunMs: 10000 })
+
+  assert.equal(queue.enqueue('a', 'a').accepted, true)
+  assert.equal(queue.enqueue('b', 'b').accepted, true)
+  const rejected = queue.enqueue('c', 'c')
+  assert.equal(rejected.accepted, false)
+  assert.equal(rejected.accepted === false && rejected.retryAfterSeconds, 20)
+
+  await flush()
+  await generator.finish('a')
+  await generator.finish('b')
+})
+
+test('an item cancelled while queued never runs', async () => {
+  const generator = fakeGenerator()
+  const queue = createGenerationQueue<string>({ worker: generator.worker })
+
+  queue.enqueue('a', 'a')
+  const cancelled = queue.enqueue('b', 'b')
+  queue.enqueue('c', 'c')
+
+  assert.equal(queue.remove('b'), true)
+  assert.equal(queue.position('b'), null)
+  assert.equal(queue.position('c'), 1)
+  // Its done promise settles so nothing waiting on it hangs
+  assert.ok(cancelled.accepted)
+  await cancelled.done
+
+  // Running items can't be removed
+  assert.equal(queue.remove('a'), false)
+
+  await generator.finish('a')
+  await generator.finish('c')
+  assert.deepEqual(generator.started, ['a', 'c'])
+})
@@ -0,0 +1,117 @@
+// test/webhooks.test.ts
+// Webhook delivery against a local receiver - signatures, retries with backoff and the delivery log
+
+// The receiver listens on loopback, which callback URLs can't otherwise reach
+import './helpers/allow-private-urls'
+
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, test } from 'node:test'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { deliverWebhook, signWebhookPayload, type WebhookDelivery } from '../src/lib/webhooks'
+
+const SECRET = 'test-secret'
+
+type Received = { headers: http.IncomingHttpHeaders; body: string; at: number }
+
+let received: Received[] = []
+// Status codes to answer with, in order; 200 once they run out
+let statuses: number[] = []
+let server: http.Server
+let url = ''
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      received.push({ headers: req.headers, body, at: Date.now() })
+      res.statusCode = statuses.shift() ?? 200
+      res.end('ok')
+    })
+  })
+  server.listen(0, '127.0.0.1')
+  await new Promise(resolve => server.once('listening', resolve))
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+})
+
+after(() => {
+  server.close()
+})
+
+beforeEach(() => {
+  received = []
+  statuses = []
+})
+
+const newDelivery = (target = url): WebhookDelivery => ({ url: target, status: 'pending', attempts: [] })
+
+test('signs the payload so the receiver can verify it', async () => {
+  const delivery = await deliverWebhook(newDelivery(), { jobId: 'job-1', state: 'succeeded' }, { secret: SECRET })
+
+  assert.equal(delivery.status, 'delivered')
+  assert.equal(received.length, 1)
+
+  const [request] = received
+  assert.deepEqual(JSON.parse(request.body), { jobId: 'job-1', state: 'succeeded' })
+  const timestamp = request.headers['x-webhook-timestamp'] as string
+  assert.equal(request.headers['x-webhook-signature'], signWebhookPayload(request.body, timestamp, SECRET))
+})
+
+test('sends no signature without a secret', async () => {
+  await deliverWebhook(newDelivery(), { jobId: 'job-2' }, { secret: '' })
+
+  assert.equal(received[0].headers['x-webhook-signature'], undefined)
+})
+
+test('retries non-2xx responses with exponential backoff and logs every attempt', async () => {
+  statuses = [500, 503]
+  const delivery = await deliverWebhook(newDelivery(), { jobId: 'job-3' }, { secret: SECRET, baseDelayMs: 50 })
+
+  assert.equal(delivery.status, 'delivered')
+  assert.deepEqual(delivery.attempts.map(attempt => attempt.statusCode), [500, 503, 200])
+  assert.deepEqual(delivery.attempts.map(attempt => attempt.error), ['HTTP 500', 'HTTP 503', undefined])
+  assert.deepEqual(delivery.attempts.map(attempt => attempt.attempt), [1, 2, 3])
+
+  // 50ms before the second attempt, 100ms before the third
+  const gaps = received.slice(1).map((request, index) => request.at - received[index].at)
+  assert.ok(gaps[0] >= 45, `first gap ${gaps[0]}ms`)
+  assert.ok(gaps[1] >= 95, `second gap ${gaps[1]}ms`)
+
+  // Every attempt is signed afresh
+  for (const request of received) {
+    const timestamp = request.headers['x-webhook-timestamp'] as string
+    assert.equal(request.headers['x-webhook-signature'], signWebhookPayload(request.body, timestamp, SECRET))
+  }
+})
+
+test('gives up after maxAttempts', async () => {
+  statuses = [500, 500, 500]
+  const delivery = await deliverWebhook(newDelivery(), { jobId: 'job-4' }, { maxAttempts: 2, baseDelayMs: 10 })
+
+  assert.equal(delivery.status, 'failed')
+  assert.equal(delivery.attempts.length, 2)
+  assert.equal(received.length, 2)
+})
+
+test('records network errors in the delivery log', async () => {
+  const closed = http.createServer()
+  closed.listen(0, '127.0.0.1')
+  await new Promise(resolve => closed.once('listening', resolve))
+  const deadUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/hook`
+  await new Promise(resolve => closed.close(resolve))
+
+  const delivery = await deliverWebhook(newDelivery(deadUrl), { jobId: 'job-5' }, { maxAttempts: 2, baseDelayMs: 10 })
+
+  assert.equal(delivery.status, 'failed')
+  assert.equal(delivery.attempts.length, 2)
+  assert.ok(delivery.attempts.every(attempt => attempt.statusCode === undefined && attempt.error))
+})
+
+test('does not follow redirects', async () => {
+  statuses = [307]
+  const delivery = await deliverWebhook(newDelivery(), { jobId: 'job-6' }, { maxAttempts: 1 })
+
+  assert.equal(delivery.status, 'failed')
+  assert.equal(delivery.attempts[0].error, 'HTTP 307')
+})